@@ -1,4 +1,7 @@
 export { Role } from "./lib/roles";
+export type { CustomRoles, RoleName, RoleMemorySchemas, RoleMemory } from "./lib/roles";
+export { registerRole, unregisterRole, getRoleDefinition, getRegisteredRoles, getDefaultTargets } from "./lib/roleRegistry";
+export type { RoleDefinition } from "./lib/roleRegistry";
 export { ActionStatus } from "./lib/status";
 export {
   SimpleCreep,
@@ -9,4 +12,136 @@ export {
   forEachCreep,
   runRole,
 } from "./lib/simpleCreep";
+export type { TypedMemoryAccess, RoleHandlers } from "./lib/simpleCreep";
 export { PopulationManager } from "./lib/populationManager";
+export {
+  registerBodyRecipe,
+  unregisterBodyRecipe,
+  getBodyRecipe,
+  buildBody,
+  getBodyCost,
+  getBodySpawnTime,
+  getBodyStats,
+} from "./lib/bodyRecipes";
+export type { BodyRecipe, BodyStats, TravelTerrain } from "./lib/bodyRecipes";
+export {
+  travelTo,
+  travelToRoom,
+  serializePath,
+  deserializePath,
+  avoidRoom,
+  allowRoom,
+  isRoomAvoided,
+  getAvoidedRooms,
+  findRoomRoute,
+} from "./lib/movement";
+export type { TravelOptions, PathStep } from "./lib/movement";
+export { registerMove, registerWork, resolveTraffic } from "./lib/traffic";
+export { getCostMatrix, getDangerSignature, invalidateCostMatrix, isWalkableTile } from "./lib/costMatrix";
+export type { CostMatrixOptions } from "./lib/costMatrix";
+export {
+  assignSource,
+  releaseSource,
+  getMiningAssignment,
+  getHarvestSpots,
+  getRequiredWork,
+  getAssignedWork,
+  getSourceContainer,
+} from "./lib/sourceAssignment";
+export type { MiningAssignment } from "./lib/sourceAssignment";
+export { findBestEnergySource, scoreEnergySource, findEnergySources, getEnergyAmount } from "./lib/energySources";
+export type { EnergySource, EnergySourceKind, EnergySourceOptions } from "./lib/energySources";
+export {
+  postSupply,
+  postDemand,
+  claimSupply,
+  claimDemand,
+  getClaim,
+  getClaimTarget,
+  releaseClaim,
+  getRequests,
+  getInFlight,
+} from "./lib/logisticsBroker";
+export type { LogisticsKind, LogisticsTarget, LogisticsRequest, LogisticsClaim, PostOptions } from "./lib/logisticsBroker";
+export {
+  getRepairTarget,
+  setRepairTargets,
+  needsRepair,
+  getTicksUntilDecayed,
+  isDecayUrgent,
+  findRepairTarget,
+} from "./lib/repairPolicy";
+export type { RepairTargets, RepairOptions } from "./lib/repairPolicy";
+export {
+  recordEnergy,
+  getRoomEconomy,
+  getSpendingMode,
+  setSpendingThresholds,
+  resolveModeTarget,
+  isModeTargets,
+} from "./lib/economy";
+export type { EnergyFlow, SpendingMode, ModeTargets, SpendingThresholds, RoomEconomy } from "./lib/economy";
+export { getLinkRole, getLinks, setLinkRole, runLinks } from "./lib/links";
+export type { LinkRole, LinkTransfer } from "./lib/links";
+export {
+  setTerminalTargets,
+  getTerminalTarget,
+  setPriceLimits,
+  getPriceLimits,
+  runTrading,
+} from "./lib/trading";
+export type { TerminalTargets, PriceLimits, TradeAction } from "./lib/trading";
+export {
+  registerRemote,
+  unregisterRemote,
+  getRemotes,
+  isRemotePaused,
+  recordRemoteIncome,
+  getRemoteReport,
+  maintainRemoteMining,
+  runReserver,
+  runRemoteMiner,
+  runRemoteHauler,
+  registerRemoteRoles,
+} from "./lib/remoteMining";
+export type { RemoteRoomMemory, RemoteOptions, RemoteReport, RemotePauseReason } from "./lib/remoteMining";
+export {
+  planRoom,
+  getRoomPlan,
+  clearRoomPlan,
+  placeConstructionSites,
+  runRoomPlanner,
+  drawRoomPlan,
+} from "./lib/roomPlanner";
+export type { RoomPlan, PlannedTile, PlanOptions } from "./lib/roomPlanner";
+export { onCreepSpawned, onCreepDied, onCreepExpiring, runCreepLifecycle } from "./lib/lifecycle";
+export type { CreepLifecycleEvent, CreepLifecycleHandler } from "./lib/lifecycle";
+export { onRoomEvent, detectRoomEvents, TICK_PHASES } from "./lib/events";
+export type { TickPhase, TickHandlerOptions, Unsubscribe, RoomEvent, RoomEventType, RoomEventHandler } from "./lib/events";
+export { defineStateMachine } from "./lib/stateMachine";
+export type { StateMachine, CreepState, StoredState } from "./lib/stateMachine";
+export {
+  NodeStatus,
+  toNodeStatus,
+  action,
+  condition,
+  sequence,
+  selector,
+  repeatUntil,
+  cooldown,
+  findTarget,
+  withTarget,
+  createBehaviorTree,
+  runBehaviorTree,
+  getBehaviorTrace,
+} from "./lib/behaviorTree";
+export type { BehaviorNode, BehaviorTree, Blackboard, NodeContext } from "./lib/behaviorTree";
+export {
+  registerMemorySchema,
+  registerCreepMigration,
+  registerGlobalMigration,
+  getMemoryVersion,
+  getInitialMemory,
+  runMemoryMigrations,
+} from "./lib/memorySchema";
+export type { MemorySchema, CreepMigration, GlobalMigration, MigrationReport } from "./lib/memorySchema";
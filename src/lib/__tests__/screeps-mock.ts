@@ -14,6 +14,15 @@ type SpawnOverrides = Partial<StructureSpawn>;
 type RoomOverrides = Partial<Room>;
 type TowerOverrides = Partial<StructureTower> & { room?: Room };
 
+type MarketOptions = {
+  orders?: Array<Partial<Order> & Pick<Order, 'id' | 'type' | 'resourceType' | 'price'>>;
+  credits?: number;
+  /** Средняя цена за последний день по ресурсам. */
+  averages?: Record<string, number>;
+};
+
+export type MockMarket = Market & { deals: Array<{ orderId: string; amount: number; roomName?: string }> };
+
 export function setupScreepsGlobals(): void {
   Object.assign(globalAny, {
     OK: 0,
@@ -23,6 +32,9 @@ export function setupScreepsGlobals(): void {
     ERR_NO_PATH: -7,
     ERR_NOT_FOUND: -5,
     ERR_TIRED: -11,
+    ERR_FULL: -8,
+    ERR_INVALID_ARGS: -10,
+    ERR_NOT_ENOUGH_RESOURCES: -6,
     WORK: 'work',
     CARRY: 'carry',
     MOVE: 'move',
@@ -30,6 +42,7 @@ export function setupScreepsGlobals(): void {
     TOUGH: 'tough',
     RANGED_ATTACK: 'ranged_attack',
     HEAL: 'heal',
+    CLAIM: 'claim',
     RESOURCE_ENERGY: 'energy',
     TOP: 1,
     FIND_SOURCES: 1,
@@ -40,6 +53,49 @@ export function setupScreepsGlobals(): void {
     FIND_MY_CREEPS: 6,
     FIND_DROPPED_RESOURCES: 7,
     LOOK_CONSTRUCTION_SITES: 'constructionSites',
+    FIND_CREEPS: 8,
+    FIND_POWER_CREEPS: 9,
+    FIND_MY_CONSTRUCTION_SITES: 10,
+    FIND_HOSTILE_STRUCTURES: 11,
+    FIND_MINERALS: 12,
+    FIND_MY_STRUCTURES: 13,
+    FIND_TOMBSTONES: 14,
+    FIND_RUINS: 15,
+    STRUCTURE_ROAD: 'road',
+    STRUCTURE_RAMPART: 'rampart',
+    STRUCTURE_CONTAINER: 'container',
+    STRUCTURE_TOWER: 'tower',
+    STRUCTURE_WALL: 'constructedWall',
+    STRUCTURE_SPAWN: 'spawn',
+    STRUCTURE_EXTENSION: 'extension',
+    STRUCTURE_EXTRACTOR: 'extractor',
+    STRUCTURE_STORAGE: 'storage',
+    STRUCTURE_TERMINAL: 'terminal',
+    STRUCTURE_INVADER_CORE: 'invaderCore',
+    STRUCTURE_LINK: 'link',
+    STRUCTURE_LAB: 'lab',
+    ORDER_BUY: 'buy',
+    ORDER_SELL: 'sell',
+    LOOK_STRUCTURES: 'structure',
+    TERRAIN_MASK_WALL: 1,
+    OBSTACLE_OBJECT_TYPES: ['spawn', 'creep', 'source', 'mineral', 'constructedWall', 'extension', 'tower'],
+    ENERGY_REGEN_TIME: 300,
+    HARVEST_POWER: 2,
+    UPGRADE_CONTROLLER_POWER: 1,
+    BUILD_POWER: 5,
+    REPAIR_POWER: 100,
+    REPAIR_COST: 0.01,
+    EVENT_OBJECT_DESTROYED: 2,
+    EVENT_BUILD: 4,
+    CREEP_SPAWN_TIME: 3,
+    CREEP_LIFE_TIME: 1500,
+    RAMPART_DECAY_AMOUNT: 300,
+    RAMPART_DECAY_TIME: 100,
+    ROAD_DECAY_AMOUNT: 100,
+    ROAD_DECAY_TIME: 1000,
+    CONTAINER_DECAY: 5000,
+    CONTAINER_DECAY_TIME: 100,
+    CONTAINER_DECAY_TIME_OWNED: 500,
   });
 
   globalAny.BODYPART_COST = {
@@ -48,15 +104,51 @@ export function setupScreepsGlobals(): void {
     [globalAny.MOVE]: 50,
     [globalAny.ATTACK]: 80,
     [globalAny.TOUGH]: 10,
+    [globalAny.CLAIM]: 600,
   } satisfies Partial<Record<BodyPartConstant, number>>;
 
-  globalAny.Game = { creeps: {}, spawns: {}, flags: {}, time: 0 } as Game;
+  const levels = (counts: number[]) => counts.reduce<Record<number, number>>((byLevel, count, level) => ({ ...byLevel, [level]: count }), {});
+  globalAny.CONTROLLER_STRUCTURES = {
+    spawn: levels([0, 1, 1, 1, 1, 1, 1, 2, 3]),
+    extension: levels([0, 0, 5, 10, 20, 30, 40, 50, 60]),
+    tower: levels([0, 0, 0, 1, 1, 2, 2, 3, 6]),
+    storage: levels([0, 0, 0, 0, 1, 1, 1, 1, 1]),
+    container: levels([5, 5, 5, 5, 5, 5, 5, 5, 5]),
+    link: levels([0, 0, 0, 0, 0, 2, 3, 4, 6]),
+    terminal: levels([0, 0, 0, 0, 0, 0, 1, 1, 1]),
+    lab: levels([0, 0, 0, 0, 0, 0, 3, 6, 10]),
+    road: levels([2500, 2500, 2500, 2500, 2500, 2500, 2500, 2500, 2500]),
+  };
+
+  globalAny.Game = { creeps: {}, spawns: {}, flags: {}, time: 0, getObjectById: () => null } as unknown as Game;
   globalAny.Memory = {} as Memory;
+  globalAny.RoomPosition = function RoomPosition(x: number, y: number, roomName: string) {
+    return createPosition(x, y, roomName);
+  };
   globalAny.PathFinder = {
     search: () => ({ path: [createPosition(1, 1, 'W0N0')] }),
+    CostMatrix: MockCostMatrix,
   } as unknown as PathFinder;
 }
 
+class MockCostMatrix {
+  private readonly bits = new Uint8Array(2500);
+
+  get(x: number, y: number): number {
+    return this.bits[x * 50 + y] ?? 0;
+  }
+
+  set(x: number, y: number, cost: number): void {
+    this.bits[x * 50 + y] = cost;
+  }
+
+  clone(): MockCostMatrix {
+    const copy = new MockCostMatrix();
+    copy.bits.set(this.bits);
+    return copy;
+  }
+}
+
 export function createPosition(x = 0, y = 0, roomName = 'W0N0'): RoomPosition {
   const pos = {
     x,
@@ -167,3 +259,66 @@ export function createTower(overrides: TowerOverrides = {}): StructureTower {
   assert.ok(tower.room, 'Tower requires a room');
   return tower as StructureTower;
 }
+
+function roomCoords(roomName: string): [number, number] {
+  const match = /^([WE])(\d+)([NS])(\d+)$/.exec(roomName);
+  if (!match) return [0, 0];
+  const x = Number(match[2]);
+  const y = Number(match[4]);
+  return [match[1] === 'W' ? -x - 1 : x, match[3] === 'N' ? -y - 1 : y];
+}
+
+/**
+ * Локальная книга ордеров: `getAllOrders` фильтрует по типу и ресурсу, `deal` уменьшает остаток ордера,
+ * `calcTransactionCost` считает комиссию по формуле игры с расстоянием по имени комнаты (без учёта границ мира).
+ */
+export function createMarket({ orders = [], credits = 0, averages = {} }: MarketOptions = {}): MockMarket {
+  const book = orders.map(o => ({ amount: 1000, remainingAmount: o.amount ?? 1000, ...o })) as Order[];
+  const market = {
+    credits,
+    deals: [] as MockMarket['deals'],
+    getAllOrders: (filter?: OrderFilter) =>
+      book.filter(o => (!filter?.type || o.type === filter.type) && (!filter?.resourceType || o.resourceType === filter.resourceType)),
+    getHistory: (resource?: MarketResourceConstant) =>
+      resource && averages[resource] !== undefined ? [{ avgPrice: averages[resource] }] : [],
+    calcTransactionCost: (amount: number, from: string, to: string) => {
+      const [ax, ay] = roomCoords(from);
+      const [bx, by] = roomCoords(to);
+      const distance = Math.max(Math.abs(ax - bx), Math.abs(ay - by));
+      return Math.ceil(amount * (1 - Math.exp(-distance / 30)));
+    },
+    deal: (orderId: string, amount: number, roomName?: string) => {
+      const order = book.find(o => o.id === orderId);
+      if (!order || order.remainingAmount < amount) return globalAny.ERR_INVALID_ARGS;
+      order.remainingAmount -= amount;
+      market.deals.push(roomName === undefined ? { orderId, amount } : { orderId, amount, roomName });
+      return globalAny.OK;
+    },
+  };
+  return market as unknown as MockMarket;
+}
+
+/** Терминал с запасами `contents`; `sent` собирает вызовы `send`. */
+export function createTerminal(
+  roomName: string,
+  contents: Record<string, number>,
+  cooldown = 0,
+): StructureTerminal & { sent: string[] } {
+  const used = Object.keys(contents).reduce((sum, r) => sum + (contents[r] ?? 0), 0);
+  const store = {
+    ...contents,
+    getUsedCapacity: (r?: string) => (r ? contents[r] ?? 0 : used),
+    getFreeCapacity: () => 300000 - used,
+  };
+  const terminal = {
+    id: `terminal-${roomName}`,
+    my: true,
+    cooldown,
+    store,
+    sent: [] as string[],
+    room: createRoom({ name: roomName }),
+    send: (resource: string, amount: number, to: string) => (terminal.sent.push(`${resource} ${amount} ${to}`), globalAny.OK),
+  };
+  (terminal.room as { terminal?: unknown }).terminal = terminal;
+  return terminal as unknown as StructureTerminal & { sent: string[] };
+}
@@ -0,0 +1,83 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert = require('node:assert');
+import { ActionStatus } from './status';
+import { SimpleCreep } from './simpleCreep';
+import {
+  NodeStatus,
+  action,
+  condition,
+  cooldown,
+  createBehaviorTree,
+  findTarget,
+  getBehaviorTrace,
+  repeatUntil,
+  runBehaviorTree,
+  selector,
+  sequence,
+  withTarget,
+} from './behaviorTree';
+import { createCreep, createPosition, createRoom, setupScreepsGlobals } from './__tests__/screeps-mock';
+
+describe('behaviorTree', () => {
+  beforeEach(() => setupScreepsGlobals());
+
+  test('find source → moveNear → harvest resumes the running node and records a trace', () => {
+    const source = { id: 'src', pos: createPosition(5, 5) } as unknown as Source;
+    (Game as any).getObjectById = (id: string) => (id === 'src' ? source : null);
+    const room = createRoom({ find: ((type: FindConstant) => (type === FIND_SOURCES ? [source] : [])) as Room['find'] });
+    const memory = {} as CreepMemory;
+    const tree = createBehaviorTree(
+      'harvest',
+      sequence(
+        findTarget('source'),
+        withTarget('move', (c, t) => c.moveNear(t)),
+        withTarget('harvest', (c, t) => c.harvest(t as Source)),
+      ),
+    );
+
+    const far = new SimpleCreep(createCreep({ room, memory, pos: createPosition(0, 0) }));
+    assert.strictEqual(runBehaviorTree(far, tree), NodeStatus.RUNNING);
+    assert.ok(getBehaviorTrace(far, tree).includes('0.1 move → RUNNING'));
+
+    const near = new SimpleCreep(createCreep({ room, memory, pos: createPosition(5, 4) }));
+    assert.strictEqual(runBehaviorTree(near, tree), NodeStatus.SUCCESS);
+    const trace = getBehaviorTrace(near, tree);
+    assert.ok(!trace.some(line => line.includes('find source')));
+    assert.ok(trace.includes('0.2 harvest → SUCCESS'));
+  });
+
+  test('selector, condition, repeatUntil and cooldown combine', () => {
+    const sc = new SimpleCreep(createCreep({ memory: {} as CreepMemory }));
+    let pulls = 0;
+    const tree = createBehaviorTree(
+      'combo',
+      selector(
+        condition('never', () => false),
+        cooldown(
+          10,
+          repeatUntil(() => pulls >= 2, action('pull', () => (pulls++, ActionStatus.WITHDRAWING))),
+        ),
+        action('idle', () => ActionStatus.IDLE, { [ActionStatus.IDLE]: NodeStatus.SUCCESS }),
+      ),
+    );
+
+    assert.strictEqual(runBehaviorTree(sc, tree), NodeStatus.RUNNING);
+    assert.strictEqual(runBehaviorTree(sc, tree), NodeStatus.SUCCESS);
+    assert.strictEqual(pulls, 2);
+    assert.strictEqual(runBehaviorTree(sc, tree), NodeStatus.SUCCESS);
+    assert.strictEqual(pulls, 2);
+    assert.ok(getBehaviorTrace(sc, tree).includes('0.2 idle → SUCCESS'));
+  });
+
+  test('the same node used twice under one parent keeps separate memory', () => {
+    const sc = new SimpleCreep(createCreep({ memory: {} as CreepMemory }));
+    const rest = cooldown(10, action('rest', () => ActionStatus.IDLE, { [ActionStatus.IDLE]: NodeStatus.SUCCESS }));
+    const tree = createBehaviorTree('twice', selector(rest, rest));
+
+    assert.strictEqual(runBehaviorTree(sc, tree), NodeStatus.SUCCESS);
+    assert.ok(getBehaviorTrace(sc, tree).includes('0.0 cooldown(10) → SUCCESS'));
+    // The first copy is cooling down; the second has its own cooldown and still runs.
+    assert.strictEqual(runBehaviorTree(sc, tree), NodeStatus.SUCCESS);
+    assert.ok(getBehaviorTrace(sc, tree).includes('0.1 cooldown(10) → SUCCESS'));
+  });
+});
@@ -0,0 +1,274 @@
+import { ActionStatus } from "./status";
+import { ClosestTargetType } from "./mixins/harvestingMixins";
+import type { SimpleCreep } from "./simpleCreep";
+
+/** Результат узла дерева поведения. */
+export enum NodeStatus {
+  SUCCESS = "SUCCESS",
+  RUNNING = "RUNNING",
+  FAILURE = "FAILURE",
+}
+
+/** Общие данные узлов одного крипа; хранятся в памяти крипа. */
+export type Blackboard = Record<string, unknown>;
+
+/** Всё, что узел получает при выполнении. */
+export interface NodeContext {
+  creep: SimpleCreep;
+  blackboard: Blackboard;
+  /** Собственная память узла у этого крипа. */
+  memory: Record<string, unknown>;
+}
+
+export interface BehaviorNode {
+  label: string;
+  children: BehaviorNode[];
+  /**
+   * Выполняет узел; детей запускает через `run(child, index)`. Индекс в `children` задаёт путь к памяти ребёнка:
+   * без него берётся первое вхождение, и повторы одного узла делили бы память.
+   */
+  tick(ctx: NodeContext, run: (node: BehaviorNode, index?: number) => NodeStatus): NodeStatus;
+}
+
+/** Дерево поведения с именем, под которым его память хранится у крипа. */
+export interface BehaviorTree {
+  name: string;
+  root: BehaviorNode;
+}
+
+interface TreeMemory {
+  nodes: Record<string, Record<string, unknown>>;
+  board: Blackboard;
+  /** Узлы, выполненные в последнем тике: `путь label → статус`. */
+  trace: string[];
+  tick: number;
+}
+
+const RUNNING_STATUSES: ActionStatus[] = [
+  ActionStatus.MOVING,
+  ActionStatus.STUCK,
+  ActionStatus.RETREATING,
+  ActionStatus.COOLDOWN,
+];
+const SUCCESS_STATUSES: ActionStatus[] = [
+  ActionStatus.ALREADY_THERE,
+  ActionStatus.ALREADY_NEAR,
+  ActionStatus.SAFE,
+  ActionStatus.HARVESTING,
+  ActionStatus.TRANSFERRING,
+  ActionStatus.WITHDRAWING,
+  ActionStatus.PICKING_UP,
+  ActionStatus.UPGRADING,
+  ActionStatus.BUILDING,
+  ActionStatus.REPAIRING,
+  ActionStatus.ATTACKING,
+  ActionStatus.HEALING,
+  ActionStatus.HEALTHY,
+  ActionStatus.ATTACK,
+  ActionStatus.REPAIR,
+  ActionStatus.HEAL,
+];
+
+/**
+ * Переводит `ActionStatus` в результат узла: движение (в том числе `STUCK`) и ожидание `COOLDOWN` — `RUNNING`, выполненное действие — `SUCCESS`, остальное — `FAILURE`.
+ * @param status Статус действия крипа.
+ * @returns Статус узла.
+ */
+export function toNodeStatus(status: ActionStatus): NodeStatus {
+  if (RUNNING_STATUSES.includes(status)) return NodeStatus.RUNNING;
+  if (SUCCESS_STATUSES.includes(status)) return NodeStatus.SUCCESS;
+  return NodeStatus.FAILURE;
+}
+
+/**
+ * Лист дерева: вызывает метод крипа и переводит его `ActionStatus` в статус узла.
+ * @param label Имя узла для трассировки.
+ * @param fn Действие крипа.
+ * @param mapping Свой перевод отдельных статусов, например `{ [ActionStatus.FULL]: NodeStatus.SUCCESS }`.
+ */
+export function action(
+  label: string,
+  fn: (creep: SimpleCreep, blackboard: Blackboard) => ActionStatus,
+  mapping: Partial<Record<ActionStatus, NodeStatus>> = {},
+): BehaviorNode {
+  return {
+    label,
+    children: [],
+    tick: ctx => {
+      const status = fn(ctx.creep, ctx.blackboard);
+      return mapping[status] ?? toNodeStatus(status);
+    },
+  };
+}
+
+/**
+ * Проверка: `SUCCESS`, если условие истинно, иначе `FAILURE`.
+ * @param label Имя узла для трассировки.
+ * @param predicate Условие.
+ */
+export function condition(label: string, predicate: (creep: SimpleCreep, blackboard: Blackboard) => boolean): BehaviorNode {
+  return {
+    label,
+    children: [],
+    tick: ctx => (predicate(ctx.creep, ctx.blackboard) ? NodeStatus.SUCCESS : NodeStatus.FAILURE),
+  };
+}
+
+/**
+ * Выполняет детей по порядку, пока все успешны. Если ребёнок `RUNNING`, в следующем тике продолжит с него.
+ * @param children Узлы по порядку.
+ */
+export function sequence(...children: BehaviorNode[]): BehaviorNode {
+  return {
+    label: "sequence",
+    children,
+    tick: (ctx, run) => {
+      for (let i = (ctx.memory.index as number | undefined) ?? 0; i < children.length; i++) {
+        const status = run(children[i] as BehaviorNode, i);
+        if (status === NodeStatus.RUNNING) {
+          ctx.memory.index = i;
+          return status;
+        }
+        if (status === NodeStatus.FAILURE) {
+          delete ctx.memory.index;
+          return status;
+        }
+      }
+      delete ctx.memory.index;
+      return NodeStatus.SUCCESS;
+    },
+  };
+}
+
+/**
+ * Пробует детей по порядку и возвращает первый результат, отличный от `FAILURE`.
+ * @param children Варианты по убыванию предпочтения.
+ */
+export function selector(...children: BehaviorNode[]): BehaviorNode {
+  return {
+    label: "selector",
+    children,
+    tick: (ctx, run) => {
+      for (let i = 0; i < children.length; i++) {
+        const status = run(children[i] as BehaviorNode, i);
+        if (status !== NodeStatus.FAILURE) return status;
+      }
+      return NodeStatus.FAILURE;
+    },
+  };
+}
+
+/**
+ * Повторяет ребёнка каждый тик (`RUNNING`), пока условие не станет истинным (`SUCCESS`). Провал ребёнка — `FAILURE`.
+ * @param until Условие окончания.
+ * @param child Повторяемый узел.
+ */
+export function repeatUntil(until: (creep: SimpleCreep, blackboard: Blackboard) => boolean, child: BehaviorNode): BehaviorNode {
+  return {
+    label: "repeatUntil",
+    children: [child],
+    tick: (ctx, run) => {
+      if (until(ctx.creep, ctx.blackboard)) return NodeStatus.SUCCESS;
+      const status = run(child, 0);
+      if (status === NodeStatus.FAILURE) return status;
+      return until(ctx.creep, ctx.blackboard) ? NodeStatus.SUCCESS : NodeStatus.RUNNING;
+    },
+  };
+}
+
+/**
+ * После успеха ребёнка не пускает его снова `ticks` тиков (в это время — `FAILURE`).
+ * @param ticks Длительность перезарядки.
+ * @param child Узел под перезарядкой.
+ */
+export function cooldown(ticks: number, child: BehaviorNode): BehaviorNode {
+  return {
+    label: `cooldown(${ticks})`,
+    children: [child],
+    tick: (ctx, run) => {
+      const readyAt = (ctx.memory.readyAt as number | undefined) ?? 0;
+      if (Game.time < readyAt) return NodeStatus.FAILURE;
+      const status = run(child, 0);
+      if (status === NodeStatus.SUCCESS) ctx.memory.readyAt = Game.time + ticks;
+      return status;
+    },
+  };
+}
+
+/**
+ * Находит ближайшую цель через `findClosestTarget` и запоминает её id в `blackboard[key]`.
+ * @param type Тип цели.
+ * @param key Ключ в общих данных (по умолчанию `target`).
+ */
+export function findTarget(type: ClosestTargetType, key = "target"): BehaviorNode {
+  return action(`find ${type}`, (creep, blackboard) => {
+    const target = creep.findClosestTarget(type) as (RoomObject & { id?: string }) | null;
+    if (!target || !target.id) return ActionStatus.NO_TARGET;
+    blackboard[key] = target.id;
+    return ActionStatus.ALREADY_THERE;
+  });
+}
+
+/**
+ * Действие над целью, найденной `findTarget`. Если цель исчезла — `FAILURE`.
+ * @param label Имя узла для трассировки.
+ * @param fn Действие над целью.
+ * @param key Ключ в общих данных (по умолчанию `target`).
+ */
+export function withTarget(
+  label: string,
+  fn: (creep: SimpleCreep, target: RoomObject) => ActionStatus,
+  key = "target",
+): BehaviorNode {
+  return action(label, (creep, blackboard) => {
+    const id = blackboard[key] as Id<RoomObject & _HasId> | undefined;
+    const target = id ? Game.getObjectById(id) : null;
+    if (!target) return ActionStatus.NO_TARGET;
+    return fn(creep, target);
+  });
+}
+
+/**
+ * Создаёт дерево поведения.
+ * @param name Имя дерева: под ним память узлов хранится у крипа (`bt:<name>`).
+ * @param root Корневой узел.
+ */
+export function createBehaviorTree(name: string, root: BehaviorNode): BehaviorTree {
+  return { name, root };
+}
+
+/**
+ * Выполняет дерево для крипа один раз за тик и записывает трассировку выполненных узлов.
+ * @param creep Крип-исполнитель.
+ * @param tree Дерево поведения.
+ * @returns Статус корня.
+ */
+export function runBehaviorTree(creep: SimpleCreep, tree: BehaviorTree): NodeStatus {
+  const key = `bt:${tree.name}`;
+  const memory = (creep.recall(key) as TreeMemory | undefined) ?? { nodes: {}, board: {}, trace: [], tick: Game.time };
+  memory.trace = [];
+  memory.tick = Game.time;
+
+  const visit = (node: BehaviorNode, path: string): NodeStatus => {
+    const nodeMemory = (memory.nodes[path] ??= {});
+    const run = (child: BehaviorNode, index = node.children.indexOf(child)) => visit(child, `${path}.${index}`);
+    const status = node.tick({ creep, blackboard: memory.board, memory: nodeMemory }, run);
+    if (Object.keys(nodeMemory).length === 0) delete memory.nodes[path];
+    memory.trace.push(`${path} ${node.label} → ${status}`);
+    return status;
+  };
+
+  const status = visit(tree.root, "0");
+  creep.remember(key, memory);
+  return status;
+}
+
+/**
+ * Трассировка последнего выполнения дерева: какие узлы отработали и с каким результатом.
+ * @param creep Крип-исполнитель.
+ * @param tree Дерево поведения.
+ * @returns Строки вида `0.1 move → RUNNING` в порядке завершения узлов.
+ */
+export function getBehaviorTrace(creep: SimpleCreep, tree: BehaviorTree): string[] {
+  return (creep.recall(`bt:${tree.name}`) as TreeMemory | undefined)?.trace ?? [];
+}
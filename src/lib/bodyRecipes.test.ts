@@ -0,0 +1,48 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert = require('node:assert');
+import { Role } from './roles';
+import { buildBody, getBodyRecipe, getBodyStats, registerBodyRecipe } from './bodyRecipes';
+import { setupScreepsGlobals } from './__tests__/screeps-mock';
+
+describe('bodyRecipes', () => {
+  beforeEach(() => setupScreepsGlobals());
+
+  test('buildBody repeats the segment within budget and max repeats', () => {
+    const recipe = { base: [WORK, CARRY, MOVE], segment: [WORK, MOVE], maxRepeats: 2 };
+    assert.strictEqual(buildBody(recipe, 199).length, 0);
+    assert.strictEqual(buildBody(recipe, 350).join(','), [WORK, CARRY, MOVE, WORK, MOVE].join(','));
+    assert.strictEqual(buildBody(recipe, 5000).length, 7);
+    // The default harvester tops up leftover energy with CARRY, as the hard-coded body did.
+    const harvester = getBodyRecipe(Role.Harvester);
+    assert.ok(harvester);
+    assert.strictEqual(buildBody(harvester, 550).join(','), [WORK, CARRY, MOVE, WORK, MOVE, WORK, MOVE, CARRY].join(','));
+  });
+
+  test('moveRatio adds MOVE parts per terrain and order sorts parts', () => {
+    const plains = buildBody({ base: [WORK, CARRY], segment: [WORK, CARRY], maxRepeats: 1, moveRatio: { roads: 0.5, plains: 1 } }, 1000);
+    assert.strictEqual(plains.filter(p => p === MOVE).length, 4);
+
+    const roads = buildBody(
+      { base: [WORK, CARRY], segment: [WORK, CARRY], maxRepeats: 1, moveRatio: { roads: 0.5, plains: 1 }, travel: 'roads' as const },
+      1000,
+    );
+    assert.strictEqual(roads.filter(p => p === MOVE).length, 2);
+
+    const soldier = buildBody({ base: [MOVE, ATTACK, TOUGH], segment: [], order: [TOUGH, ATTACK, MOVE] }, 1000);
+    assert.strictEqual(soldier.join(','), [TOUGH, ATTACK, MOVE].join(','));
+  });
+
+  test('registerBodyRecipe replaces the recipe used for a role', () => {
+    const original = getBodyRecipe(Role.Worker);
+    assert.ok(original);
+    registerBodyRecipe(Role.Worker, { base: [WORK, MOVE], segment: [] });
+    assert.strictEqual(getBodyRecipe(Role.Worker)?.base.length, 2);
+    registerBodyRecipe(Role.Worker, original);
+  });
+
+  test('getBodyStats reports cost and spawn time', () => {
+    const stats = getBodyStats([WORK, CARRY, MOVE]);
+    assert.strictEqual(stats.cost, 200);
+    assert.strictEqual(stats.spawnTime, 9);
+  });
+});
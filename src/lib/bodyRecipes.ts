@@ -0,0 +1,156 @@
+import { Role, RoleName } from "./roles";
+
+/** Тип местности, по которой в основном ходит крип. */
+export type TravelTerrain = "roads" | "plains";
+
+/**
+ * Рецепт тела: базовые части, повторяемый сегмент и правила сортировки/MOVE.
+ * Если задан `moveRatio`, части MOVE из `base` и `segment` игнорируются и считаются автоматически.
+ */
+export interface BodyRecipe {
+  /** Части, без которых крип бесполезен; если на них не хватает энергии, тело пустое. */
+  base: BodyPartConstant[];
+  /** Части, которые добавляются повторно, пока хватает энергии. */
+  segment: BodyPartConstant[];
+  /** Максимум повторов сегмента (по умолчанию — пока тело не достигнет 50 частей). */
+  maxRepeats?: number;
+  /** Части, которыми по одной добирается энергия, оставшаяся после повторов сегмента. */
+  fill?: BodyPartConstant[];
+  /** Порядок частей в теле, например `[TOUGH, WORK, CARRY, MOVE]`; части вне списка идут в конце. */
+  order?: BodyPartConstant[];
+  /** Сколько MOVE приходится на одну не-MOVE часть по дорогам и по равнине. */
+  moveRatio?: { roads: number; plains: number };
+  /** По какой местности считать `moveRatio` (по умолчанию `plains`). */
+  travel?: TravelTerrain;
+}
+
+export interface BodyStats {
+  cost: number;
+  spawnTime: number;
+}
+
+const MAX_BODY_PARTS = 50;
+
+const recipes: Partial<Record<RoleName, BodyRecipe>> = {};
+
+// Built lazily: part constants are globals that may not exist yet when the module is imported.
+function defaultRecipe(role: RoleName): BodyRecipe | undefined {
+  switch (role) {
+    case Role.Harvester:
+      return { base: [WORK, CARRY, MOVE], segment: [WORK, MOVE], fill: [CARRY] };
+    case Role.Worker:
+      return { base: [WORK, CARRY, MOVE], segment: [WORK, CARRY, MOVE] };
+    case Role.Soldier:
+      return { base: [TOUGH, ATTACK, MOVE], segment: [ATTACK, MOVE] };
+    case Role.Reserver:
+      return { base: [CLAIM, MOVE], segment: [CLAIM, MOVE], maxRepeats: 1 };
+    case Role.RemoteMiner:
+      return { base: [WORK, CARRY, MOVE], segment: [WORK, MOVE], maxRepeats: 4 };
+    case Role.RemoteHauler:
+      return { base: [CARRY, CARRY, MOVE], segment: [CARRY, CARRY, MOVE], maxRepeats: 9 };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Регистрирует (или заменяет) рецепт тела для роли. `PopulationManager` строит тела по этим рецептам.
+ * @param role Роль, для которой задаётся рецепт.
+ * @param recipe Описание тела.
+ */
+export function registerBodyRecipe(role: RoleName, recipe: BodyRecipe): void {
+  recipes[role] = recipe;
+}
+
+/**
+ * Убирает зарегистрированный рецепт: роль снова строится по рецепту по умолчанию (если он есть).
+ * @param role Роль, рецепт которой убирается.
+ */
+export function unregisterBodyRecipe(role: RoleName): void {
+  delete recipes[role];
+}
+
+/**
+ * Возвращает рецепт тела роли.
+ * @param role Роль для поиска.
+ * @returns Рецепт или `undefined`, если роль его не имеет.
+ */
+export function getBodyRecipe(role: RoleName): BodyRecipe | undefined {
+  return recipes[role] ?? defaultRecipe(role);
+}
+
+/**
+ * Считает стоимость тела в энергии.
+ * @param body Список частей тела.
+ * @returns Сумма `BODYPART_COST` всех частей.
+ */
+export function getBodyCost(body: BodyPartConstant[]): number {
+  return body.reduce((s, p) => s + (BODYPART_COST[p] || 0), 0);
+}
+
+/**
+ * Считает, сколько тиков спаун будет создавать тело.
+ * @param body Список частей тела.
+ * @returns Количество частей, умноженное на `CREEP_SPAWN_TIME`.
+ */
+export function getBodySpawnTime(body: BodyPartConstant[]): number {
+  return body.length * CREEP_SPAWN_TIME;
+}
+
+/**
+ * Стоимость и время спауна тела одним вызовом.
+ * @param body Список частей тела.
+ * @returns `{ cost, spawnTime }`.
+ */
+export function getBodyStats(body: BodyPartConstant[]): BodyStats {
+  return { cost: getBodyCost(body), spawnTime: getBodySpawnTime(body) };
+}
+
+function withMoves(parts: BodyPartConstant[], recipe: BodyRecipe): BodyPartConstant[] {
+  if (!recipe.moveRatio) return parts;
+  const working: BodyPartConstant[] = parts.filter(p => p !== MOVE);
+  const ratio = recipe.moveRatio[recipe.travel ?? "plains"];
+  const moves = working.length > 0 ? Math.max(1, Math.ceil(working.length * ratio)) : 0;
+  return working.concat(new Array<BodyPartConstant>(moves).fill(MOVE));
+}
+
+function sortParts(body: BodyPartConstant[], order: BodyPartConstant[] | undefined): BodyPartConstant[] {
+  if (!order) return body;
+  const rank = (p: BodyPartConstant) => {
+    const i = order.indexOf(p);
+    return i === -1 ? order.length : i;
+  };
+  // Array.prototype.sort is stable, so parts of the same rank keep their recipe order.
+  return body.slice().sort((a, b) => rank(a) - rank(b));
+}
+
+/**
+ * Строит самое большое тело по рецепту, которое помещается в бюджет энергии.
+ * @param recipe Рецепт тела.
+ * @param availableEnergy Доступная энергия.
+ * @returns Тело или пустой массив, если не хватает даже на базу.
+ */
+export function buildBody(recipe: BodyRecipe, availableEnergy: number): BodyPartConstant[] {
+  let parts = recipe.base.slice();
+  let body = withMoves(parts, recipe);
+  if (body.length === 0 || body.length > MAX_BODY_PARTS || getBodyCost(body) > availableEnergy) return [];
+
+  const maxRepeats = recipe.maxRepeats ?? MAX_BODY_PARTS;
+  for (let repeats = 0; repeats < maxRepeats && recipe.segment.length > 0; repeats++) {
+    const nextParts = parts.concat(recipe.segment);
+    const next = withMoves(nextParts, recipe);
+    if (next.length > MAX_BODY_PARTS || getBodyCost(next) > availableEnergy) break;
+    parts = nextParts;
+    body = next;
+  }
+
+  const fill = recipe.fill ?? [];
+  for (let i = 0; fill.length > 0; i++) {
+    const nextParts = parts.concat(fill[i % fill.length] as BodyPartConstant);
+    const next = withMoves(nextParts, recipe);
+    if (next.length > MAX_BODY_PARTS || getBodyCost(next) > availableEnergy) break;
+    parts = nextParts;
+    body = next;
+  }
+  return sortParts(body, recipe.order);
+}
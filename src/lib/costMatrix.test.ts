@@ -0,0 +1,65 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert = require('node:assert');
+import { getCostMatrix, invalidateCostMatrix } from './costMatrix';
+import { createCreep, createPosition, createRoom, setupScreepsGlobals } from './__tests__/screeps-mock';
+
+describe('costMatrix', () => {
+  let structures: Structure[];
+  let hostiles: Creep[];
+  let creeps: Creep[];
+
+  beforeEach(() => {
+    setupScreepsGlobals();
+    invalidateCostMatrix();
+    structures = [
+      { structureType: STRUCTURE_ROAD, pos: createPosition(10, 10) } as Structure,
+      { structureType: STRUCTURE_WALL, pos: createPosition(11, 10) } as Structure,
+      { structureType: STRUCTURE_CONTAINER, pos: createPosition(12, 10) } as Structure,
+      { structureType: STRUCTURE_ROAD, pos: createPosition(27, 25) } as Structure,
+    ];
+    hostiles = [];
+    creeps = [];
+    const room = createRoom({
+      find: ((type: FindConstant) => {
+        if (type === FIND_STRUCTURES) return structures;
+        if (type === FIND_HOSTILE_CREEPS) return hostiles;
+        if (type === FIND_CREEPS) return creeps;
+        return [];
+      }) as Room['find'],
+    });
+    (Game as any).rooms = { W0N0: room };
+  });
+
+  test('structure costs are cached between ticks and rebuilt when structures change', () => {
+    const first = getCostMatrix('W0N0', { danger: false });
+    assert.strictEqual(first.get(10, 10), 1);
+    assert.strictEqual(first.get(11, 10), 255);
+    assert.strictEqual(first.get(12, 10), 0);
+
+    Game.time = 1;
+    assert.strictEqual(getCostMatrix('W0N0', { danger: false }), first);
+
+    structures.push({ structureType: STRUCTURE_SPAWN, pos: createPosition(5, 5) } as Structure);
+    const rebuilt = getCostMatrix('W0N0', { danger: false });
+    assert.ok(rebuilt !== first);
+    assert.strictEqual(rebuilt.get(5, 5), 255);
+  });
+
+  test('creeps and danger zones are layered on top for the current tick', () => {
+    creeps = [createCreep({ pos: createPosition(3, 3) })];
+    hostiles = [
+      createCreep({ pos: createPosition(25, 25), body: [{ type: RANGED_ATTACK, hits: 100 }] as BodyPartDefinition[] }),
+      createCreep({ pos: createPosition(40, 40), body: [{ type: ATTACK, hits: 0 }] as BodyPartDefinition[] }),
+    ];
+
+    assert.strictEqual(getCostMatrix('W0N0').get(3, 3), 0);
+    assert.strictEqual(getCostMatrix('W0N0', { creeps: true }).get(3, 3), 255);
+
+    const danger = getCostMatrix('W0N0');
+    assert.strictEqual(danger.get(29, 25), 40);
+    assert.strictEqual(danger.get(27, 25), 40);
+    assert.strictEqual(danger.get(30, 25), 0);
+    assert.strictEqual(danger.get(40, 41), 0);
+    assert.strictEqual(getCostMatrix('W0N0', { danger: false }).get(27, 25), 1);
+  });
+});
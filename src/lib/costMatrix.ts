@@ -0,0 +1,172 @@
+export interface CostMatrixOptions {
+  /** Считать клетки с крипами непроходимыми (по умолчанию `false`). */
+  creeps?: boolean;
+  /** Добавить опасные зоны вокруг вражеских башен и боевых крипов (по умолчанию `true`). */
+  danger?: boolean;
+}
+
+interface CachedRoom {
+  /** Дороги и постройки; переживает тики. */
+  structures: CostMatrix;
+  /** Число построек при сборке: если изменилось, матрица собирается заново. */
+  signature: number;
+  builtAt: number;
+  /** Матрицы со слоями крипов и опасности, собранные в тике `tick`. */
+  layered: Record<string, CostMatrix>;
+  tick: number;
+}
+
+const IMPASSABLE = 0xff;
+/** Стоимость клетки в опасной зоне (для сравнения: равнина — 2, болото — 10). */
+const DANGER_COST = 40;
+/** Вокруг вражеской башни: урон сильнее всего в пределах 5 клеток и заметно падает к 20. */
+const TOWER_DANGER_RANGE = 10;
+/** Вокруг крипа с ATTACK: дальность удара плюс шаг навстречу. */
+const MELEE_DANGER_RANGE = 2;
+/** Вокруг крипа с RANGED_ATTACK: дальность выстрела плюс шаг навстречу. */
+const RANGED_DANGER_RANGE = 4;
+/** Даже без изменений в постройках матрица пересобирается раз в столько тиков. */
+const REBUILD_INTERVAL = 1000;
+
+// Heap cache: after a global reset the matrices are simply rebuilt on first use.
+const cache = new Map<string, CachedRoom>();
+// Room objects are rebuilt every tick, so the danger signature keyed by them resets on its own.
+const dangerSignatures = new WeakMap<Room, string>();
+
+function buildStructureMatrix(room: Room, structures: Structure[]): CostMatrix {
+  const costs = new PathFinder.CostMatrix();
+  for (const s of structures) {
+    if (s.structureType === STRUCTURE_ROAD) {
+      if (costs.get(s.pos.x, s.pos.y) === 0) costs.set(s.pos.x, s.pos.y, 1);
+    } else if (s.structureType === STRUCTURE_RAMPART) {
+      const rampart = s as StructureRampart;
+      if (!rampart.my && !rampart.isPublic) costs.set(s.pos.x, s.pos.y, IMPASSABLE);
+    } else if (s.structureType !== STRUCTURE_CONTAINER) {
+      costs.set(s.pos.x, s.pos.y, IMPASSABLE);
+    }
+  }
+  for (const site of room.find(FIND_MY_CONSTRUCTION_SITES)) {
+    const walkable = [STRUCTURE_ROAD, STRUCTURE_CONTAINER, STRUCTURE_RAMPART] as StructureConstant[];
+    if (!walkable.includes(site.structureType)) costs.set(site.pos.x, site.pos.y, IMPASSABLE);
+  }
+  return costs;
+}
+
+function markZone(costs: CostMatrix, pos: RoomPosition, range: number): void {
+  for (let x = Math.max(0, pos.x - range); x <= Math.min(49, pos.x + range); x++) {
+    for (let y = Math.max(0, pos.y - range); y <= Math.min(49, pos.y + range); y++) {
+      const current = costs.get(x, y);
+      if (current !== IMPASSABLE && current < DANGER_COST) costs.set(x, y, DANGER_COST);
+    }
+  }
+}
+
+function hasPart(creep: Creep, part: BodyPartConstant): boolean {
+  return creep.body.some(p => p.type === part && p.hits > 0);
+}
+
+function findDangers(room: Room): Array<{ id: string; pos: RoomPosition; range: number }> {
+  const towers = (room.find(FIND_HOSTILE_STRUCTURES) as Structure[]).filter(s => s.structureType === STRUCTURE_TOWER);
+  const dangers = towers.map(tower => ({ id: tower.id as string, pos: tower.pos, range: TOWER_DANGER_RANGE }));
+  for (const hostile of room.find(FIND_HOSTILE_CREEPS) as Creep[]) {
+    if (hasPart(hostile, RANGED_ATTACK)) dangers.push({ id: hostile.id, pos: hostile.pos, range: RANGED_DANGER_RANGE });
+    else if (hasPart(hostile, ATTACK)) dangers.push({ id: hostile.id, pos: hostile.pos, range: MELEE_DANGER_RANGE });
+  }
+  return dangers;
+}
+
+function addDanger(room: Room, costs: CostMatrix): void {
+  for (const danger of findDangers(room)) markZone(costs, danger.pos, danger.range);
+}
+
+function getCachedRoom(room: Room): CachedRoom {
+  const structures = room.find(FIND_STRUCTURES) as Structure[];
+  const signature = structures.length + room.find(FIND_MY_CONSTRUCTION_SITES).length;
+  let cached = cache.get(room.name);
+  if (!cached || cached.signature !== signature || Game.time - cached.builtAt >= REBUILD_INTERVAL) {
+    cached = {
+      structures: buildStructureMatrix(room, structures),
+      signature,
+      builtAt: Game.time,
+      layered: {},
+      tick: Game.time,
+    };
+    cache.set(room.name, cached);
+  }
+  if (cached.tick !== Game.time) {
+    cached.layered = {};
+    cached.tick = Game.time;
+  }
+  return cached;
+}
+
+/**
+ * Матрица стоимостей комнаты для `PathFinder`: дороги и постройки берутся из кэша, который пересобирается,
+ * когда постройки меняются; крипы и опасные зоны накладываются поверх на текущий тик.
+ * @param roomName Имя комнаты.
+ * @param options Какие слои добавить.
+ * @returns Матрица; для невидимой комнаты — пустая (стоимость по местности).
+ */
+export function getCostMatrix(roomName: string, options: CostMatrixOptions = {}): CostMatrix {
+  const room = Game.rooms?.[roomName];
+  if (!room) return new PathFinder.CostMatrix();
+
+  const creeps = options.creeps ?? false;
+  const danger = options.danger ?? true;
+  const cached = getCachedRoom(room);
+  if (!creeps && !danger) return cached.structures;
+
+  const key = `${creeps ? "c" : ""}${danger ? "d" : ""}`;
+  const existing = cached.layered[key];
+  if (existing) return existing;
+
+  const costs = cached.structures.clone();
+  if (danger) addDanger(room, costs);
+  if (creeps) {
+    for (const c of room.find(FIND_CREEPS)) costs.set(c.pos.x, c.pos.y, IMPASSABLE);
+    for (const c of room.find(FIND_POWER_CREEPS)) costs.set(c.pos.x, c.pos.y, IMPASSABLE);
+  }
+  cached.layered[key] = costs;
+  return costs;
+}
+
+/**
+ * Отпечаток опасности в комнате: какие вражеские башни и боевые крипы в ней есть. Если он изменился,
+ * пути, построенные раньше, могли пройти через новую опасную зону и должны строиться заново.
+ * @param roomName Имя комнаты.
+ * @returns Строка из id опасных объектов; пустая, если опасности нет или комната не видна.
+ */
+export function getDangerSignature(roomName: string): string {
+  const room = Game.rooms?.[roomName];
+  if (!room) return "";
+  let signature = dangerSignatures.get(room);
+  if (signature === undefined) {
+    signature = findDangers(room)
+      .map(d => d.id)
+      .sort()
+      .join(",");
+    dangerSignatures.set(room, signature);
+  }
+  return signature;
+}
+
+/**
+ * Можно ли встать на клетку: не стена и нет непроходимой постройки (постройки проверяются только в видимой комнате).
+ * @param pos Координаты и имя комнаты.
+ * @returns `true`, если клетка проходима.
+ */
+export function isWalkableTile(pos: { x: number; y: number; roomName: string }): boolean {
+  if (Game.map.getRoomTerrain(pos.roomName).get(pos.x, pos.y) & TERRAIN_MASK_WALL) return false;
+  const room = Game.rooms?.[pos.roomName];
+  const structures = room ? room.lookForAt(LOOK_STRUCTURES, pos.x, pos.y) : [];
+  return !structures.some(s => (OBSTACLE_OBJECT_TYPES as string[]).includes(s.structureType));
+}
+
+/**
+ * Сбрасывает кэш матрицы комнаты, например после того как постройка заменила другую на той же клетке.
+ * @param roomName Имя комнаты; без него сбрасываются все комнаты.
+ */
+export function invalidateCostMatrix(roomName?: string): void {
+  if (roomName === undefined) cache.clear();
+  else cache.delete(roomName);
+}
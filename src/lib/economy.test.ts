@@ -0,0 +1,88 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert = require('node:assert');
+import { Role } from './roles';
+import { ActionStatus } from './status';
+import { SimpleCreep } from './simpleCreep';
+import { PopulationManager } from './populationManager';
+import { getRoomEconomy, getSpendingMode, recordEnergy } from './economy';
+import { createCreep, createPosition, createRoom, createSpawn, createStore, setupScreepsGlobals } from './__tests__/screeps-mock';
+
+describe('economy', () => {
+  beforeEach(() => setupScreepsGlobals());
+
+  const roomWithStorage = (energy: number, controller?: Partial<StructureController>) => {
+    const room = createRoom({
+      energyAvailable: 300,
+      storage: { store: createStore({ used: energy, capacity: 1000000 }) } as StructureStorage,
+      ...(controller ? { controller: { my: true, pos: createPosition(12, 10), ...controller } as StructureController } : {}),
+    });
+    (Game as any).rooms = { W0N0: room };
+    return room;
+  };
+
+  test('spawn and upgrade spending are averaged per tick against harvest income', () => {
+    const room = roomWithStorage(50000, { ticksToDowngrade: 10000 });
+    Game.spawns = { s: createSpawn({ room }) };
+    assert.strictEqual(PopulationManager.buildCreep(Role.Worker), 'SPAWNING');
+
+    const body = [{ type: WORK, hits: 100 }, { type: WORK, hits: 0 }] as BodyPartDefinition[];
+    const creep = createCreep({ room, body, pos: createPosition(10, 10), store: createStore({ used: 50, capacity: 50 }) });
+    assert.strictEqual(new SimpleCreep(creep).upgradeController(), ActionStatus.UPGRADING);
+    recordEnergy('W0N0', 'harvest', 2000);
+
+    // Nothing is averaged until the tick is over.
+    assert.strictEqual(getRoomEconomy('W0N0').harvest, 0);
+    Game.time = 1;
+    const economy = getRoomEconomy('W0N0');
+    assert.strictEqual(economy.harvest, 2);
+    assert.strictEqual(economy.upgrade, 0.001);
+    assert.ok(economy.spawn > 0);
+    assert.ok(Math.abs(economy.net - (economy.harvest - economy.spawn - economy.upgrade)) < 1e-9);
+    assert.strictEqual(economy.mode, 'normal');
+  });
+
+  test('population targets follow the spending mode of the room', () => {
+    const room = roomWithStorage(5000);
+    Game.spawns = { s: createSpawn({ room }) };
+    // A harvester keeps the room out of emergency mode.
+    Game.creeps = { h: createCreep({ room, memory: { role: Role.Harvester, home: 'W0N0' } as CreepMemory }) };
+    const targets = { [Role.Worker]: { save: 0, surplus: 3 } };
+
+    assert.strictEqual(getSpendingMode('W0N0'), 'save');
+    assert.strictEqual(PopulationManager.maintainPopulation(targets)[Role.Worker], 'CAPPED');
+    (room.storage as any).store = createStore({ used: 200000, capacity: 1000000 });
+    assert.strictEqual(PopulationManager.maintainPopulation(targets)[Role.Worker], 'SPAWNING');
+  });
+
+  test('doWork saves energy by skipping upgrades while the room spends more than it harvests', () => {
+    const room = roomWithStorage(5000, { ticksToDowngrade: 20000 });
+    const creep = createCreep({ room, pos: createPosition(10, 10), store: createStore({ used: 50, capacity: 50 }) });
+    const sc = new SimpleCreep(creep);
+    // A freshly built, empty storage alone does not idle the workers.
+    assert.strictEqual(sc.doWork(), ActionStatus.UPGRADING);
+
+    recordEnergy('W0N0', 'upgrade', 5000);
+    Game.time = 1;
+    assert.strictEqual(sc.doWork(), ActionStatus.IDLE);
+
+    (room.controller as any).ticksToDowngrade = 1000;
+    assert.strictEqual(sc.doWork(), ActionStatus.UPGRADING);
+  });
+
+  test('doWork upgrades before routine repair in surplus but still saves structures about to decay', () => {
+    const room = roomWithStorage(200000, { level: 3, ticksToDowngrade: 20000 });
+    const wall = { id: 'wall', structureType: STRUCTURE_WALL, hits: 1000, hitsMax: 300000000, pos: createPosition(11, 10), room };
+    const rampart = { id: 'ramp', structureType: STRUCTURE_RAMPART, hits: 250, hitsMax: 1000000, my: true, ticksToDecay: 40, pos: createPosition(11, 11), room };
+    let structures: unknown[] = [wall, rampart];
+    (room as any).find = (type: FindConstant) => (type === FIND_STRUCTURES ? structures : []);
+    const creep = createCreep({ room, pos: createPosition(10, 10), store: createStore({ used: 50, capacity: 50 }) });
+    const sc = new SimpleCreep(creep);
+
+    assert.strictEqual(getSpendingMode('W0N0'), 'surplus');
+    assert.strictEqual(sc.doWork(), ActionStatus.REPAIRING);
+    assert.strictEqual(sc.findClosestDamagedStructure()?.id, 'ramp');
+
+    structures = [wall];
+    assert.strictEqual(sc.doWork(), ActionStatus.UPGRADING);
+  });
+});
@@ -0,0 +1,135 @@
+/** Статья энергетического баланса комнаты: доход от добычи и расходы на спаун, апгрейд, стройку и ремонт. */
+export type EnergyFlow = "harvest" | "spawn" | "upgrade" | "build" | "repair";
+
+/**
+ * Режим трат комнаты по запасу энергии в хранилище:
+ * `save` — копим (мало энергии), `normal` — обычная работа, `surplus` — энергии с избытком, можно тратить.
+ */
+export type SpendingMode = "save" | "normal" | "surplus";
+
+/** Значение по режимам трат, например численность роли `{ save: 1, normal: 2, surplus: 4 }`. */
+export type ModeTargets = Partial<Record<SpendingMode, number>>;
+
+/** Границы режимов: меньше `save` энергии в хранилище — `save`, больше `surplus` — `surplus`. */
+export interface SpendingThresholds {
+  save: number;
+  surplus: number;
+}
+
+/** Средние потоки энергии комнаты за тик и режим трат. */
+export interface RoomEconomy extends Record<EnergyFlow, number> {
+  /** Добыча минус все расходы. */
+  net: number;
+  /** Энергия в хранилище (0 без хранилища). */
+  stored: number;
+  mode: SpendingMode;
+}
+
+type FlowTotals = Record<EnergyFlow, number>;
+
+/** `Memory.__economy[roomName]`: средние за тик и энергия, учтённая в текущем тике. */
+interface EconomyMemory {
+  tick: number;
+  pending: FlowTotals;
+  average: FlowTotals;
+}
+
+const FLOWS: EnergyFlow[] = ["harvest", "spawn", "upgrade", "build", "repair"];
+/** Окно усреднения в тиках: вклад тика в среднее затухает примерно за это время. */
+const ECONOMY_WINDOW = 1000;
+const DEFAULT_THRESHOLDS: SpendingThresholds = { save: 20000, surplus: 150000 };
+
+let thresholds: SpendingThresholds = { ...DEFAULT_THRESHOLDS };
+
+function emptyTotals(): FlowTotals {
+  return { harvest: 0, spawn: 0, upgrade: 0, build: 0, repair: 0 };
+}
+
+function getEntry(roomName: string): EconomyMemory {
+  if (!(Memory as any).__economy) (Memory as any).__economy = {};
+  const store = (Memory as any).__economy as Record<string, EconomyMemory>;
+  const entry = (store[roomName] ??= { tick: Game.time, pending: emptyTotals(), average: emptyTotals() });
+
+  // Fold finished ticks into the moving average; ticks nobody recorded count as zero.
+  const elapsed = Game.time - entry.tick;
+  if (elapsed > 0) {
+    const alpha = 1 / ECONOMY_WINDOW;
+    const decay = Math.pow(1 - alpha, elapsed - 1);
+    for (const flow of FLOWS) {
+      entry.average[flow] = (entry.average[flow] * (1 - alpha) + entry.pending[flow] * alpha) * decay;
+    }
+    entry.pending = emptyTotals();
+    entry.tick = Game.time;
+  }
+  return entry;
+}
+
+/**
+ * Учитывает энергию в балансе комнаты. Методы `SimpleCreep` (добыча, апгрейд, стройка, ремонт)
+ * и `PopulationManager` (спаун) вызывают это сами; вызывайте вручную для своих трат.
+ * @param roomName Комната.
+ * @param flow Статья баланса.
+ * @param amount Количество энергии.
+ */
+export function recordEnergy(roomName: string, flow: EnergyFlow, amount: number): void {
+  if (!(amount > 0)) return;
+  getEntry(roomName).pending[flow] += amount;
+}
+
+/**
+ * Меняет границы режимов трат для всех комнат.
+ * @param next Новые границы; не заданные остаются прежними.
+ */
+export function setSpendingThresholds(next: Partial<SpendingThresholds>): void {
+  thresholds = { ...thresholds, ...next };
+}
+
+/**
+ * Режим трат комнаты по энергии в хранилище. Без хранилища (или без видимости комнаты) — `normal`.
+ * @param roomName Комната.
+ */
+export function getSpendingMode(roomName: string): SpendingMode {
+  const storage = Game.rooms?.[roomName]?.storage;
+  if (!storage) return "normal";
+  const stored = storage.store.getUsedCapacity(RESOURCE_ENERGY);
+  if (stored < thresholds.save) return "save";
+  if (stored > thresholds.surplus) return "surplus";
+  return "normal";
+}
+
+/**
+ * Выбирает значение для текущего режима комнаты: `{ save: 1, normal: 2, surplus: 4 }` → 2 в режиме `normal`.
+ * Для режима без значения берётся `normal`, затем 0.
+ * @param value Число (возвращается как есть) или значения по режимам.
+ * @param roomName Комната, чей режим учитывается.
+ */
+export function resolveModeTarget(value: number | ModeTargets, roomName: string): number {
+  if (typeof value === "number") return value;
+  return value[getSpendingMode(roomName)] ?? value.normal ?? 0;
+}
+
+/**
+ * Проверяет, что объект — значения по режимам трат (все ключи — `save`, `normal` или `surplus`).
+ * @param value Проверяемое значение.
+ */
+export function isModeTargets(value: unknown): value is ModeTargets {
+  if (typeof value !== "object" || value === null) return false;
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every(key => key === "save" || key === "normal" || key === "surplus");
+}
+
+/**
+ * Энергетический баланс комнаты: средние за тик добыча и расходы (скользящее среднее примерно за 1000 тиков),
+ * запас в хранилище и режим трат.
+ * @param roomName Комната.
+ */
+export function getRoomEconomy(roomName: string): RoomEconomy {
+  const average = getEntry(roomName).average;
+  const spent = average.spawn + average.upgrade + average.build + average.repair;
+  return {
+    ...average,
+    net: average.harvest - spent,
+    stored: Game.rooms?.[roomName]?.storage?.store.getUsedCapacity(RESOURCE_ENERGY) ?? 0,
+    mode: getSpendingMode(roomName),
+  };
+}
@@ -0,0 +1,48 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert = require('node:assert');
+import { ActionStatus } from './status';
+import { SimpleCreep } from './simpleCreep';
+import { findBestEnergySource, scoreEnergySource } from './energySources';
+import { createCreep, createPosition, createRoom, createStore, setupScreepsGlobals } from './__tests__/screeps-mock';
+
+describe('energySources', () => {
+  beforeEach(() => setupScreepsGlobals());
+
+  const drop = (id: string, x: number, amount: number) =>
+    ({ id, pos: createPosition(x, 10), resourceType: RESOURCE_ENERGY, amount }) as unknown as Resource;
+  const tombstone = (id: string, x: number, energy: number, ticksToDecay: number) =>
+    ({ id, pos: createPosition(x, 10), creep: {}, ticksToDecay, store: createStore({ used: energy, capacity: energy }) }) as unknown as Tombstone;
+  const container = (id: string, x: number, energy: number) =>
+    ({ id, pos: createPosition(x, 10), structureType: STRUCTURE_CONTAINER, store: createStore({ used: energy, capacity: 2000 }) }) as unknown as StructureContainer;
+
+  const creepIn = (objects: Partial<Record<FindConstant, unknown[]>>, x = 10) => {
+    const room = createRoom({ find: ((type: FindConstant) => objects[type] ?? []) as Room['find'] });
+    return createCreep({ room, pos: createPosition(x, 10), store: createStore({ used: 0, capacity: 100 }) });
+  };
+
+  test('a big pile nearby beats a small one and decaying energy beats a container', () => {
+    const creep = creepIn({
+      [FIND_DROPPED_RESOURCES]: [drop('small', 11, 10), drop('big', 14, 300)],
+      [FIND_STRUCTURES]: [container('c', 12, 1000)],
+    });
+    assert.strictEqual((findBestEnergySource(creep) as Resource).id, 'big');
+    assert.strictEqual((findBestEnergySource(creep, { kinds: ['container'] }) as StructureContainer).id, 'c');
+    // A pile shrinks on the way and a tombstone that vanishes before arrival is worthless.
+    assert.strictEqual(scoreEnergySource(creep.pos, drop('x', 40, 1000), 1000), (970 * 1.5) / 35);
+    assert.strictEqual(scoreEnergySource(creep.pos, tombstone('t', 30, 100, 5), 100), 0);
+  });
+
+  test('pickupOrWithdrawEnergy withdraws from tombstones and picks up piles', () => {
+    const withdrawn: string[] = [];
+    const picked: string[] = [];
+    const creep = creepIn({ [FIND_TOMBSTONES]: [tombstone('t', 11, 80, 100)] });
+    (creep as any).withdraw = (target: Tombstone) => (withdrawn.push((target as any).id), OK);
+    (creep as any).pickup = (target: Resource) => (picked.push((target as any).id), OK);
+    assert.strictEqual(new SimpleCreep(creep).pickupOrWithdrawEnergy(), ActionStatus.WITHDRAWING);
+
+    const other = creepIn({ [FIND_DROPPED_RESOURCES]: [drop('d', 11, 80)], [FIND_TOMBSTONES]: [tombstone('far', 30, 80, 100)] });
+    (other as any).pickup = (target: Resource) => (picked.push((target as any).id), OK);
+    assert.strictEqual(new SimpleCreep(other).pickupOrWithdrawEnergy(), ActionStatus.PICKING_UP);
+    assert.strictEqual(`${withdrawn.join()}|${picked.join()}`, 't|d');
+  });
+});
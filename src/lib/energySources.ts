@@ -0,0 +1,113 @@
+import { getInFlight } from "./logisticsBroker";
+
+/** Где может лежать энергия, которую крип заберёт сам. */
+export type EnergySourceKind = "dropped" | "tombstone" | "ruin" | "container" | "storage";
+
+/** Объект с энергией: упавшая куча (`pickup`) или хранилище с `store` (`withdraw`). */
+export type EnergySource = Resource | Tombstone | Ruin | StructureContainer | StructureStorage;
+
+export interface EnergySourceOptions {
+  /** Какие виды источников рассматривать (по умолчанию все). */
+  kinds?: EnergySourceKind[];
+  /** Сколько энергии нужно крипу; по умолчанию свободное место в нём. */
+  capacity?: number;
+}
+
+const ALL_KINDS: EnergySourceKind[] = ["dropped", "tombstone", "ruin", "container", "storage"];
+/** Тики на подход и погрузку, добавляемые к дистанции: без них соседняя кучка в 5 энергии побеждала бы всё. */
+const TRIP_OVERHEAD = 5;
+/** Исчезающая энергия (кучи, надгробия, руины) ценится выше: иначе она пропадёт. */
+const DECAYING_BONUS = 1.5;
+/** Упавшая куча теряет ceil(amount / ENERGY_DECAY) за тик. */
+const DROP_DECAY = 1000;
+
+function isDrop(target: EnergySource): target is Resource {
+  return "resourceType" in target;
+}
+
+function kindOf(target: EnergySource): EnergySourceKind {
+  if (isDrop(target)) return "dropped";
+  if ("structureType" in target) return target.structureType === STRUCTURE_STORAGE ? "storage" : "container";
+  return "creep" in target ? "tombstone" : "ruin";
+}
+
+/**
+ * Сколько энергии в объекте сейчас.
+ * @param target Куча, надгробие, руины, контейнер или хранилище.
+ */
+export function getEnergyAmount(target: EnergySource): number {
+  if (isDrop(target)) return target.resourceType === RESOURCE_ENERGY ? target.amount ?? 0 : 0;
+  return target.store?.getUsedCapacity(RESOURCE_ENERGY) ?? 0;
+}
+
+/** Сколько энергии останется к приходу крипа через `ticks` тиков. */
+function amountOnArrival(target: EnergySource, ticks: number): number {
+  let amount = getEnergyAmount(target);
+  if (isDrop(target)) {
+    for (let i = 0; i < ticks && amount > 0; i++) amount -= Math.ceil(amount / DROP_DECAY);
+    return Math.max(amount, 0);
+  }
+  const ticksToDecay = (target as Tombstone | Ruin).ticksToDecay;
+  return ticksToDecay !== undefined && ticksToDecay <= ticks ? 0 : amount;
+}
+
+/**
+ * Оценка источника энергии для крипа: сколько полезной энергии он получит за тик пути.
+ * Учитывает, сколько влезет в крипа, сколько уже забирают другие перевозчики, распад кучи
+ * и исчезновение надгробия или руин до прихода.
+ * @param from Позиция крипа.
+ * @param target Источник энергии.
+ * @param capacity Сколько энергии нужно крипу.
+ * @returns Чем больше, тем лучше; 0 — идти незачем.
+ */
+export function scoreEnergySource(from: RoomPosition, target: EnergySource, capacity: number): number {
+  const distance = from.getRangeTo(target);
+  const available = amountOnArrival(target, distance) - getInFlight(target.id, "supply");
+  const useful = Math.min(available, capacity);
+  if (!(useful > 0)) return 0;
+  const bonus = kindOf(target) === "container" || kindOf(target) === "storage" ? 1 : DECAYING_BONUS;
+  return (useful * bonus) / (distance + TRIP_OVERHEAD);
+}
+
+/**
+ * Все объекты с энергией в комнате указанных видов.
+ * @param room Комната.
+ * @param kinds Виды источников (по умолчанию все).
+ */
+export function findEnergySources(room: Room, kinds: EnergySourceKind[] = ALL_KINDS): EnergySource[] {
+  const sources: EnergySource[] = [];
+  if (kinds.includes("dropped")) sources.push(...(room.find(FIND_DROPPED_RESOURCES) as Resource[]));
+  if (kinds.includes("tombstone")) sources.push(...(room.find(FIND_TOMBSTONES) as Tombstone[]));
+  if (kinds.includes("ruin")) sources.push(...(room.find(FIND_RUINS) as Ruin[]));
+  if (kinds.includes("container") || kinds.includes("storage")) {
+    const structures = room.find(FIND_STRUCTURES) as AnyStructure[];
+    for (const s of structures) {
+      if (s.structureType === STRUCTURE_CONTAINER && kinds.includes("container")) sources.push(s);
+      else if (s.structureType === STRUCTURE_STORAGE && kinds.includes("storage")) sources.push(s);
+    }
+  }
+  return sources.filter(s => getEnergyAmount(s) > 0);
+}
+
+/**
+ * Лучший источник энергии в комнате крипа по `scoreEnergySource`: большая куча рядом лучше маленькой вдали,
+ * а исчезающая энергия важнее той, что спокойно лежит в контейнере.
+ * @param creep Крип, которому нужна энергия.
+ * @param options Виды источников и сколько энергии нужно.
+ * @returns Источник или `null`, если идти не к чему.
+ */
+export function findBestEnergySource(creep: Creep, options: EnergySourceOptions = {}): EnergySource | null {
+  const room = creep.room;
+  if (!room) return null;
+  const capacity = options.capacity ?? creep.store.getFreeCapacity(RESOURCE_ENERGY) ?? 0;
+  let best: EnergySource | null = null;
+  let bestScore = 0;
+  for (const target of findEnergySources(room, options.kinds)) {
+    const score = scoreEnergySource(creep.pos, target, capacity);
+    if (score > bestScore) {
+      best = target;
+      bestScore = score;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,72 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert = require('node:assert');
+import { detectRoomEvents, onRoomEvent, onTick, runTickHandlers } from './events';
+import { createCreep, createRoom, setupScreepsGlobals } from './__tests__/screeps-mock';
+
+describe('events', () => {
+  beforeEach(() => setupScreepsGlobals());
+
+  test('tick handlers run by phase and priority and can unsubscribe', () => {
+    const calls: string[] = [];
+    const offs = [
+      onTick(() => calls.push('post'), { phase: 'postTick' }),
+      onTick(() => calls.push('creeps-low')),
+      onTick(() => calls.push('creeps-high'), { priority: 5 }),
+      onTick(() => calls.push('pre'), { phase: 'preTick' }),
+      onTick(() => calls.push('structures'), { phase: 'structures' }),
+    ];
+    runTickHandlers();
+    assert.strictEqual(calls.join(','), 'pre,creeps-high,creeps-low,structures,post');
+
+    offs.forEach(off => off());
+    calls.length = 0;
+    runTickHandlers();
+    assert.strictEqual(calls.length, 0);
+  });
+
+  test('detectRoomEvents reports hostiles, level ups, destroyed structures and completed sites', () => {
+    const hostiles: Creep[] = [];
+    let log: EventItem[] = [];
+    const controller = { my: true, level: 2 } as StructureController;
+    const room = createRoom({
+      name: 'W5N5',
+      controller,
+      find: ((type: FindConstant) => (type === FIND_HOSTILE_CREEPS ? hostiles : [])) as Room['find'],
+      getEventLog: () => log,
+    });
+
+    assert.strictEqual(detectRoomEvents(room).length, 0);
+
+    hostiles.push(createCreep());
+    (controller as { level: number }).level = 3;
+    log = [
+      { event: EVENT_OBJECT_DESTROYED, objectId: 'wall', data: { type: 'constructedWall' } },
+      { event: EVENT_OBJECT_DESTROYED, objectId: 'invader', data: { type: 'creep' } },
+      { event: EVENT_BUILD, objectId: 'w1', data: { targetId: 'site', amount: 5, energySpent: 5, structureType: 'road', x: 5, y: 5, incomplete: false } },
+      { event: EVENT_BUILD, objectId: 'w2', data: { targetId: 'other', amount: 5, energySpent: 5, structureType: 'road', x: 6, y: 5, incomplete: true } },
+    ] as EventItem[];
+    const events = detectRoomEvents(room);
+    assert.strictEqual(
+      events.map(e => e.type).sort().join(','),
+      ['constructionCompleted', 'controllerLevelUp', 'hostilesEntered', 'structureDestroyed'].join(','),
+    );
+    assert.strictEqual(events.find(e => e.type === 'constructionCompleted')?.x, 5);
+
+    // Without listeners the snapshot is dropped, so a late listener does not see a stale "left".
+    log = [];
+    hostiles.length = 0;
+    Game.rooms = { W5N5: room };
+    runTickHandlers();
+    let left = 0;
+    const off = onRoomEvent('hostilesLeft', () => left++);
+    runTickHandlers();
+    assert.strictEqual(left, 0);
+
+    hostiles.push(createCreep());
+    runTickHandlers();
+    hostiles.length = 0;
+    runTickHandlers();
+    off();
+    assert.strictEqual(left, 1);
+  });
+});
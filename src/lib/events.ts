@@ -0,0 +1,180 @@
+/** Фазы тика в порядке выполнения. */
+export type TickPhase = "preTick" | "creeps" | "structures" | "postTick";
+
+export const TICK_PHASES: TickPhase[] = ["preTick", "creeps", "structures", "postTick"];
+
+export interface TickHandlerOptions {
+  /** Фаза, в которой вызывается обработчик (по умолчанию `creeps`). */
+  phase?: TickPhase;
+  /** Обработчики с большим приоритетом вызываются раньше; при равенстве — в порядке регистрации. */
+  priority?: number;
+}
+
+/** Функция отписки: после вызова обработчик больше не запускается. */
+export type Unsubscribe = () => void;
+
+export type RoomEventType =
+  | "hostilesEntered"
+  | "hostilesLeft"
+  | "controllerLevelUp"
+  | "structureDestroyed"
+  | "constructionCompleted";
+
+/** Событие комнаты: из журнала событий `room.getEventLog()` или из сравнения с прошлым тиком. */
+export interface RoomEvent {
+  type: RoomEventType;
+  roomName: string;
+  /** Враги в комнате (для `hostilesEntered`). */
+  hostiles?: Creep[];
+  /** Новый уровень контроллера (для `controllerLevelUp`). */
+  level?: number;
+  /** Тип разрушенной или достроенной постройки. */
+  structureType?: StructureConstant;
+  /** Id разрушенной постройки или достроенной стройплощадки. */
+  objectId?: string;
+  /** Клетка достроенной постройки (журнал событий не хранит клетку разрушенной). */
+  x?: number;
+  y?: number;
+}
+
+export type RoomEventHandler = (event: RoomEvent) => void;
+
+interface Registration<T> {
+  handler: T;
+  priority: number;
+  order: number;
+}
+
+interface RoomSnapshot {
+  hostiles: number;
+  level: number;
+}
+
+/** Поля `EVENT_BUILD`, которые сервер пишет в журнал, но которых нет в типах `@types/screeps`. */
+interface BuildEventDetails {
+  targetId: string;
+  structureType?: BuildableStructureConstant;
+  x?: number;
+  y?: number;
+  incomplete?: boolean;
+}
+
+const tickHandlers: Record<TickPhase, Array<Registration<() => void>>> = {
+  preTick: [],
+  creeps: [],
+  structures: [],
+  postTick: [],
+};
+const roomHandlers: Record<RoomEventType, Array<Registration<RoomEventHandler>>> = {
+  hostilesEntered: [],
+  hostilesLeft: [],
+  controllerLevelUp: [],
+  structureDestroyed: [],
+  constructionCompleted: [],
+};
+// Snapshots live on the heap: after a global reset the first tick only records a new baseline.
+const snapshots = new Map<string, RoomSnapshot>();
+let registrationCounter = 0;
+
+function subscribe<T>(list: Array<Registration<T>>, handler: T, priority: number): Unsubscribe {
+  const registration = { handler, priority, order: registrationCounter++ };
+  list.push(registration);
+  list.sort((a, b) => b.priority - a.priority || a.order - b.order);
+  return () => {
+    const index = list.indexOf(registration);
+    if (index !== -1) list.splice(index, 1);
+  };
+}
+
+/**
+ * Регистрирует колбэк, выполняемый каждый игровой тик.
+ * @param callback Функция, вызываемая при выполнении `runTickHandlers`.
+ * @param options Фаза тика и приоритет обработчика.
+ * @returns Функция отписки.
+ */
+export function onTick(callback: () => void, options: TickHandlerOptions = {}): Unsubscribe {
+  return subscribe(tickHandlers[options.phase ?? "creeps"], callback, options.priority ?? 0);
+}
+
+/**
+ * Подписывается на событие комнаты: появление/уход врагов, рост уровня контроллера,
+ * разрушение постройки или завершение стройки.
+ * @param type Тип события.
+ * @param handler Функция, получающая событие.
+ * @param priority Обработчики с большим приоритетом вызываются раньше.
+ * @returns Функция отписки.
+ */
+export function onRoomEvent(type: RoomEventType, handler: RoomEventHandler, priority = 0): Unsubscribe {
+  return subscribe(roomHandlers[type], handler, priority);
+}
+
+function readEventLog(room: Room): RoomEvent[] {
+  const events: RoomEvent[] = [];
+  const roomName = room.name;
+  for (const entry of room.getEventLog()) {
+    if (entry.event === EVENT_OBJECT_DESTROYED && entry.data.type !== "creep") {
+      events.push({ type: "structureDestroyed", roomName, structureType: entry.data.type, objectId: entry.objectId });
+    } else if (entry.event === EVENT_BUILD) {
+      const build = entry.data as BuildEventDetails;
+      if (build.incomplete !== false || !build.structureType) continue;
+      const event: RoomEvent = { type: "constructionCompleted", roomName, structureType: build.structureType, objectId: build.targetId };
+      if (build.x !== undefined && build.y !== undefined) {
+        event.x = build.x;
+        event.y = build.y;
+      }
+      events.push(event);
+    }
+  }
+  return events;
+}
+
+/**
+ * Находит события комнаты за этот тик. Разрушения и достройки берутся из журнала `room.getEventLog()`,
+ * враги и уровень контроллера сравниваются с прошлым тиком — первый вызов для комнаты только запоминает их.
+ * @param room Видимая комната.
+ * @returns Список событий комнаты за этот тик.
+ */
+export function detectRoomEvents(room: Room): RoomEvent[] {
+  const hostiles = room.find(FIND_HOSTILE_CREEPS) as Creep[];
+  const current: RoomSnapshot = { hostiles: hostiles.length, level: room.controller?.my ? room.controller.level : 0 };
+  const previous = snapshots.get(room.name);
+  snapshots.set(room.name, current);
+
+  const events = readEventLog(room);
+  if (!previous) return events;
+  const roomName = room.name;
+  if (previous.hostiles === 0 && current.hostiles > 0) events.push({ type: "hostilesEntered", roomName, hostiles });
+  if (previous.hostiles > 0 && current.hostiles === 0) events.push({ type: "hostilesLeft", roomName });
+  if (previous.level > 0 && current.level > previous.level) {
+    events.push({ type: "controllerLevelUp", roomName, level: current.level });
+  }
+  return events;
+}
+
+function emitRoomEvents(): void {
+  const listened = Object.keys(roomHandlers).some(type => roomHandlers[type as RoomEventType].length > 0);
+  // Nobody compares against the snapshots while no one listens, so a later listener starts from a fresh baseline.
+  if (!listened) {
+    snapshots.clear();
+    return;
+  }
+  for (const roomName in Game.rooms ?? {}) {
+    const room = Game.rooms[roomName];
+    if (!room) continue;
+    for (const event of detectRoomEvents(room)) {
+      roomHandlers[event.type].slice().forEach(r => r.handler(event));
+    }
+  }
+}
+
+/**
+ * Выполняет все зарегистрированные колбэки тиков по фазам: `preTick`, события комнат,
+ * `creeps`, `structures`, `postTick`. Вызывайте внутри `module.exports.loop`.
+ */
+export function runTickHandlers(): void {
+  for (const phase of TICK_PHASES) {
+    // Copy so handlers may unsubscribe while the phase is running.
+    tickHandlers[phase].slice().forEach(r => r.handler());
+    if (phase === "preTick") emitRoomEvents();
+  }
+}
@@ -0,0 +1,76 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert = require('node:assert');
+import { Role } from './roles';
+import { onCreepDied, onCreepExpiring, onCreepSpawned, runCreepLifecycle } from './lifecycle';
+import { PopulationManager } from './populationManager';
+import { createCreep, createRoom, createSpawn, setupScreepsGlobals } from './__tests__/screeps-mock';
+
+describe('lifecycle', () => {
+  beforeEach(() => setupScreepsGlobals());
+
+  test('runCreepLifecycle removes memory of dead creeps and reports their last memory', () => {
+    const died: Array<{ name: string; role: string | null; source?: string }> = [];
+    onCreepDied(event => died.push({ name: event.name, role: event.role, source: (event.memory as any).source }));
+
+    Memory.creeps = {
+      ghost: { role: Role.Harvester, source: 'src1' } as CreepMemory,
+      alive: { role: Role.Worker } as CreepMemory,
+    };
+    Game.creeps = { alive: createCreep({ room: createRoom(), memory: Memory.creeps['alive'] as CreepMemory }) };
+
+    const removed = runCreepLifecycle();
+    assert.strictEqual(removed.join(','), 'ghost');
+    assert.strictEqual(Memory.creeps['ghost'], undefined);
+    assert.ok(Memory.creeps['alive']);
+    assert.strictEqual(died.length, 1);
+    assert.strictEqual(died[0]?.role, Role.Harvester);
+    assert.strictEqual(died[0]?.source, 'src1');
+  });
+
+  test('creeps that are still being spawned keep their memory', () => {
+    const room = createRoom({ energyAvailable: 300 });
+    Game.spawns = {
+      busy: createSpawn({ room, spawning: { name: 'queued' } as Spawning }),
+      // Like the game, spawnCreep writes the memory now but the creep appears in Game.creeps next tick.
+      idle: createSpawn({
+        room,
+        spawnCreep: (_body, name, opts) => ((Memory.creeps[name] = opts?.memory as CreepMemory), OK),
+      }),
+    };
+    Memory.creeps = { queued: { role: Role.Worker } as CreepMemory };
+    assert.strictEqual(PopulationManager.buildCreep(Role.Worker), 'SPAWNING');
+    const started = Object.keys(Memory.creeps).find(name => name !== 'queued') as string;
+
+    assert.strictEqual(runCreepLifecycle().length, 0);
+    assert.ok(Memory.creeps['queued']);
+    assert.ok(Memory.creeps[started]);
+  });
+
+  test('spawned and expiring events fire once per creep', () => {
+    let spawned = 0;
+    let expiring = 0;
+    onCreepSpawned(() => spawned++);
+    onCreepExpiring(() => expiring++);
+
+    const memory = { role: Role.Worker } as CreepMemory;
+    Memory.creeps = { w: memory };
+    const body = [{ type: WORK, hits: 100 }] as BodyPartDefinition[];
+    Game.creeps = { w: createCreep({ name: 'w', room: createRoom(), memory, body, ticksToLive: 1 }) };
+
+    runCreepLifecycle();
+    runCreepLifecycle();
+    assert.strictEqual(spawned, 1);
+    assert.strictEqual(expiring, 1);
+  });
+
+  test('a lifecycle handler stops firing once unsubscribed', () => {
+    const died: string[] = [];
+    const unsubscribe = onCreepDied(event => died.push(event.name));
+    Memory.creeps = { first: { role: Role.Worker } as CreepMemory };
+    runCreepLifecycle();
+    unsubscribe();
+    Memory.creeps = { second: { role: Role.Worker } as CreepMemory };
+    runCreepLifecycle();
+    assert.strictEqual(died.join(','), 'first');
+  });
+});
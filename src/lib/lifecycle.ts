@@ -0,0 +1,98 @@
+import { RoleName } from "./roles";
+import { PopulationManager } from "./populationManager";
+import type { Unsubscribe } from "./events";
+
+/** Данные события жизненного цикла крипа. */
+export interface CreepLifecycleEvent {
+  name: string;
+  role: RoleName | null;
+  /** Последняя известная память крипа (для умершего — запись, которая удаляется из `Memory.creeps` сразу после обработчиков). */
+  memory: CreepMemory;
+  /** Сам крип; отсутствует в событии смерти. */
+  creep?: Creep;
+}
+
+export type CreepLifecycleHandler = (event: CreepLifecycleEvent) => void;
+
+const spawnedHandlers: CreepLifecycleHandler[] = [];
+const diedHandlers: CreepLifecycleHandler[] = [];
+const expiringHandlers: CreepLifecycleHandler[] = [];
+
+function subscribe(list: CreepLifecycleHandler[], callback: CreepLifecycleHandler): Unsubscribe {
+  list.push(callback);
+  return () => {
+    const index = list.indexOf(callback);
+    if (index !== -1) list.splice(index, 1);
+  };
+}
+
+/**
+ * Регистрирует колбэк, вызываемый один раз, когда крип вышел из спауна.
+ * @param callback Функция, получающая имя, роль, память и самого крипа.
+ * @returns Функция отписки.
+ */
+export function onCreepSpawned(callback: CreepLifecycleHandler): Unsubscribe {
+  return subscribe(spawnedHandlers, callback);
+}
+
+/**
+ * Регистрирует колбэк, вызываемый после смерти крипа, до удаления его памяти.
+ * @param callback Функция, получающая имя, роль и последнюю память крипа.
+ * @returns Функция отписки.
+ */
+export function onCreepDied(callback: CreepLifecycleHandler): Unsubscribe {
+  return subscribe(diedHandlers, callback);
+}
+
+/**
+ * Регистрирует колбэк, вызываемый один раз, когда крипу пора заказать замену (см. `PopulationManager.isExpiring`).
+ * @param callback Функция, получающая имя, роль, память и самого крипа.
+ * @returns Функция отписки.
+ */
+export function onCreepExpiring(callback: CreepLifecycleHandler): Unsubscribe {
+  return subscribe(expiringHandlers, callback);
+}
+
+/**
+ * Роль из памяти крипа.
+ * @param memory Память крипа.
+ * @returns Роль или `null`, если она не записана.
+ */
+export function roleOf(memory: CreepMemory): RoleName | null {
+  return ((memory as any).role as RoleName | undefined) ?? null;
+}
+
+/**
+ * Рассылает события жизненного цикла и удаляет из `Memory.creeps` записи умерших крипов.
+ * Крипы, которые ещё спаунятся (см. `PopulationManager.isSpawning`), умершими не считаются.
+ * Вызывайте один раз за тик в начале цикла, до спауна: `onTick(runCreepLifecycle, { phase: "preTick" })`.
+ * @returns Имена крипов, чья память была удалена.
+ */
+export function runCreepLifecycle(): string[] {
+  const removed: string[] = [];
+  const memories = Memory.creeps ?? {};
+
+  for (const name in memories) {
+    if (Game.creeps[name] || PopulationManager.isSpawning(name)) continue;
+    const memory = memories[name] as CreepMemory;
+    diedHandlers.forEach(cb => cb({ name, role: roleOf(memory), memory }));
+    delete memories[name];
+    removed.push(name);
+  }
+
+  for (const name in Game.creeps) {
+    const creep = Game.creeps[name];
+    if (!creep || creep.spawning) continue;
+    const memory = creep.memory as CreepMemory & { _lc?: "spawned" | "expiring" };
+    if (!memory._lc) {
+      memory._lc = "spawned";
+      spawnedHandlers.forEach(cb => cb({ name, role: roleOf(memory), memory, creep }));
+    }
+    if (memory._lc !== "expiring" && PopulationManager.isExpiring(creep)) {
+      memory._lc = "expiring";
+      expiringHandlers.forEach(cb => cb({ name, role: roleOf(memory), memory, creep }));
+    }
+  }
+
+  return removed;
+}
@@ -0,0 +1,99 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert = require('node:assert');
+import { getLinkRole, runLinks, setLinkRole } from './links';
+import { SimpleCreep } from './simpleCreep';
+import { createCreep, createPosition, createRoom, setupScreepsGlobals } from './__tests__/screeps-mock';
+
+describe('links', () => {
+  let links: StructureLink[];
+  let sent: string[];
+  let room: Room;
+
+  const createLink = (id: string, x: number, y: number, energy: number, cooldown = 0) => {
+    const store = {
+      getUsedCapacity: () => energy,
+      getFreeCapacity: () => 800 - energy,
+      getCapacity: () => 800,
+    };
+    const link = {
+      id,
+      structureType: STRUCTURE_LINK,
+      my: true,
+      pos: createPosition(x, y),
+      store,
+      cooldown,
+      transferEnergy: (to: StructureLink, amount: number) => (sent.push(`${id}->${to.id}:${amount}`), OK),
+    } as unknown as StructureLink;
+    return link;
+  };
+
+  beforeEach(() => {
+    setupScreepsGlobals();
+    sent = [];
+    links = [];
+    room = createRoom({
+      controller: { my: true, pos: createPosition(40, 40) } as StructureController,
+      storage: { id: 'storage', pos: createPosition(25, 25) } as StructureStorage,
+      find: ((type: FindConstant, opts?: { filter?: (s: unknown) => boolean }) => {
+        if (type === FIND_SOURCES) return [{ pos: createPosition(5, 5) }];
+        if (type === FIND_MY_STRUCTURES) return links.filter(l => !opts?.filter || opts.filter(l));
+        return [];
+      }) as Room['find'],
+    });
+    (Game as any).rooms = { W0N0: room };
+  });
+
+  const add = (link: StructureLink) => {
+    (link as any).room = room;
+    links.push(link);
+    return link;
+  };
+
+  test('links are classified by what they stand next to and can be reassigned', () => {
+    const source = add(createLink('s', 6, 6, 0));
+    const storage = add(createLink('st', 26, 25, 0));
+    const controller = add(createLink('c', 38, 40, 0));
+    const hub = add(createLink('h', 15, 30, 0));
+    assert.strictEqual(getLinkRole(source), 'source');
+    assert.strictEqual(getLinkRole(storage), 'storage');
+    assert.strictEqual(getLinkRole(controller), 'controller');
+    assert.strictEqual(getLinkRole(hub), 'hub');
+
+    setLinkRole(hub, 'controller');
+    assert.strictEqual(getLinkRole(hub), 'controller');
+    setLinkRole(hub, null);
+    assert.strictEqual(getLinkRole(hub), 'hub');
+  });
+
+  test('a hub link becomes the storage link once storage is built', () => {
+    delete (room as any).storage;
+    const link = add(createLink('l', 26, 25, 0));
+    assert.strictEqual(getLinkRole(link), 'hub');
+
+    // Next tick the room object is rebuilt, now with the storage next to the link.
+    room = { ...room, storage: { id: 'storage', pos: createPosition(25, 25) } } as Room;
+    (link as any).room = room;
+    assert.strictEqual(getLinkRole(link), 'storage');
+  });
+
+  test('source links feed a hungry controller link first, then the hub, and respect cooldown', () => {
+    add(createLink('s1', 6, 6, 800));
+    add(createLink('s2', 4, 4, 600));
+    add(createLink('s3', 5, 6, 800, 3));
+    add(createLink('c', 38, 40, 100));
+    add(createLink('h', 15, 30, 0));
+
+    runLinks();
+    assert.strictEqual(sent.join(' '), 's1->c:700 s2->h:600');
+  });
+
+  test('workers take energy from a nearby controller link but never from a source link', () => {
+    add(createLink('s', 6, 6, 800));
+    add(createLink('c', 38, 40, 400));
+    const upgrader = new SimpleCreep(createCreep({ pos: createPosition(39, 39), room }));
+    assert.strictEqual((upgrader.findEnergyDropOrContainer() as StructureLink | null)?.id, 'c');
+
+    const miner = new SimpleCreep(createCreep({ pos: createPosition(6, 5), room }));
+    assert.strictEqual(miner.findEnergyDropOrContainer(), null);
+  });
+});
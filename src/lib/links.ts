@@ -0,0 +1,156 @@
+/** Назначение линка: у источника, у контроллера, у хранилища или центральный (все остальные). */
+export type LinkRole = "source" | "controller" | "storage" | "hub";
+
+/** Передача энергии между линками, выполненная `runLinks`. */
+export interface LinkTransfer {
+  from: Id<StructureLink>;
+  to: Id<StructureLink>;
+  amount: number;
+}
+
+/** `Memory.__links[roomName]`: роли линков комнаты и ручные назначения. */
+interface RoomLinkMemory {
+  /** Что было в комнате при классификации (число линков, хранилище, контроллер): если изменилось, роли пересчитываются. */
+  key?: string;
+  roles: Record<string, LinkRole>;
+  manual?: Record<string, LinkRole>;
+}
+
+/** Линк у источника отправляет энергию, когда заполнен хотя бы на эту долю. */
+const SEND_RATIO = 0.5;
+/** Линк у контроллера получает энергию, пока заполнен меньше чем на эту долю. */
+const CONTROLLER_REFILL_RATIO = 0.5;
+/** Меньше этой доли вместимости не отправляем: каждая передача теряет 3% и ставит линк на перезарядку. */
+const MIN_TRANSFER_RATIO = 0.25;
+/** Дальность до источника, хранилища и контроллера, на которой линк считается «их». */
+const SOURCE_RANGE = 2;
+const STORAGE_RANGE = 2;
+const CONTROLLER_RANGE = 3;
+
+// Game objects are rebuilt every tick, so links and roles cached per room object reset on their own.
+// The broker and energy lookups ask for link roles many times per tick.
+const tickCache = new WeakMap<Room, { links: StructureLink[]; roles: Record<string, LinkRole> }>();
+
+function getStore(roomName: string): RoomLinkMemory {
+  if (!(Memory as any).__links) (Memory as any).__links = {};
+  const store = (Memory as any).__links as Record<string, RoomLinkMemory>;
+  return (store[roomName] ??= { roles: {} });
+}
+
+function findLinks(room: Room): StructureLink[] {
+  return room.find(FIND_MY_STRUCTURES, {
+    filter: s => s.structureType === STRUCTURE_LINK,
+  }) as StructureLink[];
+}
+
+function classify(room: Room, link: StructureLink): LinkRole {
+  const sources = room.find(FIND_SOURCES) as Source[];
+  if (sources.some(source => link.pos.inRangeTo(source.pos, SOURCE_RANGE))) return "source";
+  if (room.storage && link.pos.inRangeTo(room.storage.pos, STORAGE_RANGE)) return "storage";
+  if (room.controller && link.pos.inRangeTo(room.controller.pos, CONTROLLER_RANGE)) return "controller";
+  return "hub";
+}
+
+function getRoomLinks(room: Room): { links: StructureLink[]; roles: Record<string, LinkRole> } {
+  const cached = tickCache.get(room);
+  if (cached) return cached;
+
+  const links = findLinks(room);
+  const memory = getStore(room.name);
+  const key = `${links.length}|${room.storage?.id ?? ""}|${room.controller?.id ?? ""}`;
+  if (memory.key !== key) {
+    memory.roles = {};
+    for (const link of links) memory.roles[link.id] = classify(room, link);
+    memory.key = key;
+  }
+  const entry = { links, roles: { ...memory.roles, ...(memory.manual ?? {}) } };
+  tickCache.set(room, entry);
+  return entry;
+}
+
+/**
+ * Роль линка: по умолчанию определяется по соседству (источник, хранилище, контроллер, иначе центральный).
+ * @param link Линк.
+ * @returns Роль линка.
+ */
+export function getLinkRole(link: StructureLink): LinkRole {
+  return getRoomLinks(link.room).roles[link.id] ?? classify(link.room, link);
+}
+
+/**
+ * Назначает линку роль вручную, например если автоматическая классификация ошиблась.
+ * @param link Линк или его id.
+ * @param role Новая роль; `null` возвращает автоматическую классификацию.
+ * @param roomName Комната линка (нужна, если передан id).
+ */
+export function setLinkRole(link: StructureLink | Id<StructureLink>, role: LinkRole | null, roomName?: string): void {
+  const id = typeof link === "string" ? link : link.id;
+  const room = typeof link === "string" ? roomName : link.room.name;
+  if (!room) return;
+  const memory = getStore(room);
+  const manual = (memory.manual ??= {});
+  if (role) manual[id] = role;
+  else delete manual[id];
+  const visible = typeof link === "string" ? Game.rooms?.[room] : link.room;
+  if (visible) tickCache.delete(visible);
+}
+
+/**
+ * Линки комнаты с указанной ролью.
+ * @param room Комната.
+ * @param role Роль линков.
+ */
+export function getLinks(room: Room, role: LinkRole): StructureLink[] {
+  const { links, roles } = getRoomLinks(room);
+  return links.filter(link => roles[link.id] === role);
+}
+
+function transferLinks(room: Room): LinkTransfer[] {
+  const { links, roles } = getRoomLinks(room);
+  if (links.length < 2) return [];
+  const byRole = (role: LinkRole) => links.filter(link => roles[link.id] === role);
+
+  const incoming = new Map<string, number>();
+  const freeOf = (link: StructureLink) =>
+    link.store.getFreeCapacity(RESOURCE_ENERGY) - (incoming.get(link.id) ?? 0);
+  const needsRefill = (link: StructureLink) =>
+    link.store.getUsedCapacity(RESOURCE_ENERGY) + (incoming.get(link.id) ?? 0) <
+    link.store.getCapacity(RESOURCE_ENERGY) * CONTROLLER_REFILL_RATIO;
+
+  const transfers: LinkTransfer[] = [];
+  const send = (from: StructureLink, receivers: StructureLink[]): void => {
+    const capacity = from.store.getCapacity(RESOURCE_ENERGY);
+    const energy = from.store.getUsedCapacity(RESOURCE_ENERGY);
+    if (from.cooldown > 0 || energy < capacity * SEND_RATIO) return;
+    const to = receivers.find(link => link.id !== from.id && freeOf(link) >= capacity * MIN_TRANSFER_RATIO);
+    if (!to) return;
+    const amount = Math.min(energy, freeOf(to));
+    if (from.transferEnergy(to, amount) !== OK) return;
+    incoming.set(to.id, (incoming.get(to.id) ?? 0) + amount);
+    transfers.push({ from: from.id, to: to.id, amount });
+  };
+
+  const controllerLinks = byRole("controller").filter(needsRefill);
+  // Source links feed the controller first, then the hub, then the storage link.
+  const sinks = controllerLinks.concat(byRole("hub"), byRole("storage"));
+  byRole("source").forEach(link => send(link, sinks));
+  // Energy put into the core links by haulers tops up a hungry controller link.
+  byRole("hub").concat(byRole("storage")).forEach(link => send(link, controllerLinks.filter(needsRefill)));
+  return transfers;
+}
+
+/**
+ * Перекачивает энергию между линками своих комнат: линки у источников отдают её линку контроллера,
+ * пока он заполнен меньше чем наполовину, затем центральному и линку хранилища; центральный линк и линк
+ * хранилища подпитывают линк контроллера. Отправляет только линк без перезарядки и заполненный хотя бы наполовину.
+ * Вызывайте раз за тик в `loop`, например после `runTickHandlers`.
+ * @returns Выполненные передачи.
+ */
+export function runLinks(): LinkTransfer[] {
+  const transfers: LinkTransfer[] = [];
+  for (const roomName in Game.rooms ?? {}) {
+    const room = Game.rooms[roomName];
+    if (room?.controller?.my) transfers.push(...transferLinks(room));
+  }
+  return transfers;
+}
@@ -0,0 +1,84 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert = require('node:assert');
+import { ActionStatus } from './status';
+import { SimpleCreep } from './simpleCreep';
+import { claimDemand, claimSupply, getClaim, getInFlight, getRequests, postDemand, releaseClaim } from './logisticsBroker';
+import { createCreep, createPosition, createRoom, createStore, setupScreepsGlobals } from './__tests__/screeps-mock';
+
+describe('logisticsBroker', () => {
+  let structures: Structure[];
+  let room: Room;
+
+  const extension = (id: string, x: number, free: number) =>
+    ({
+      id,
+      structureType: STRUCTURE_EXTENSION,
+      my: true,
+      pos: createPosition(x, 10),
+      store: createStore({ used: 50 - free, capacity: 50 }),
+    }) as unknown as StructureExtension;
+
+  const hauler = (name: string, x: number) => {
+    const creep = createCreep({ name, pos: createPosition(x, 11), room, store: createStore({ used: 50, capacity: 50 }) });
+    Game.creeps[name] = creep;
+    return creep;
+  };
+
+  beforeEach(() => {
+    setupScreepsGlobals();
+    structures = [extension('e1', 10, 50), extension('e2', 20, 50)];
+    room = createRoom({
+      find: ((type: FindConstant) => (type === FIND_STRUCTURES ? structures : [])) as Room['find'],
+    });
+    (Game as any).rooms = { W0N0: room };
+  });
+
+  test('haulers claim different targets and energy in flight is not requested twice', () => {
+    const first = claimDemand(hauler('a', 10));
+    const second = claimDemand(hauler('b', 10));
+    assert.strictEqual(first?.id, 'e1');
+    assert.strictEqual(second?.id, 'e2');
+    assert.strictEqual(getInFlight('e1', 'demand'), 50);
+    assert.strictEqual(claimDemand(hauler('c', 10)), null);
+    assert.strictEqual(getRequests('W0N0', 'demand').map(r => r.remaining).join(','), '0,0');
+
+    // The claim is kept on later ticks until the delivery is done.
+    Game.time = 1;
+    assert.strictEqual(claimDemand(Game.creeps.a as Creep)?.id, 'e1');
+  });
+
+  test('posted demands are served by priority and deliverEnergyToBase releases the claim', () => {
+    const upgrader = createCreep({ name: 'up', pos: createPosition(30, 10), room, store: createStore({ capacity: 100 }) });
+    (upgrader as any).id = 'up';
+    postDemand(upgrader, { priority: 200 });
+
+    const creep = hauler('a', 29);
+    const sc = new SimpleCreep(creep);
+    assert.strictEqual(sc.deliverEnergyToBase(), ActionStatus.TRANSFERRING);
+    assert.strictEqual(getClaim(creep), null);
+
+    const far = new SimpleCreep(hauler('b', 40));
+    postDemand(upgrader, { priority: 200 });
+    assert.strictEqual(far.deliverEnergyToBase(), ActionStatus.NOT_IN_RANGE);
+    assert.strictEqual(getClaim(far.creep)?.id, 'up');
+  });
+
+  test('energy taken from storage is not carried back to it and controller containers are never drained', () => {
+    const store = (id: string, structureType: StructureConstant, x: number) =>
+      ({ id, structureType, pos: createPosition(x, 10), store: createStore({ used: 500, capacity: 2000 }) }) as unknown as Structure;
+    structures = [store('storage', STRUCTURE_STORAGE, 12), store('controller', STRUCTURE_CONTAINER, 30)];
+    // Requests are rebuilt once per tick, so start on a tick the other tests have not used.
+    Game.time = 10;
+    assert.strictEqual(getRequests('W0N0', 'supply').map(r => r.id).join(','), 'storage');
+
+    const creep = createCreep({ name: 'h', pos: createPosition(11, 10), room, store: createStore({ capacity: 50 }) });
+    Game.creeps['h'] = creep;
+    assert.strictEqual(claimSupply(creep)?.id, 'storage');
+    releaseClaim(creep);
+    (creep as any).store = createStore({ used: 50, capacity: 50 });
+    assert.strictEqual(claimDemand(creep)?.id, 'controller');
+    structures = [structures[0] as Structure];
+    Game.time = 11;
+    assert.strictEqual(claimDemand(creep), null);
+  });
+});
@@ -0,0 +1,283 @@
+import { getLinkRole } from "./links";
+
+export type LogisticsKind = "supply" | "demand";
+
+/** Объект, из которого можно забрать ресурс (предложение) или которому его нужно отдать (спрос). */
+export type LogisticsTarget = Structure | Creep | Resource | Tombstone | Ruin;
+
+export interface PostOptions {
+  /** Сколько ресурса предлагается или нужно; по умолчанию — всё, что есть, или всё свободное место. */
+  amount?: number;
+  /** Чем больше число, тем раньше заявку заберёт перевозчик. */
+  priority?: number;
+  /** Тип ресурса (по умолчанию энергия). */
+  resource?: ResourceConstant;
+  /** Заявку могут взять только крипы не дальше этого расстояния от цели. */
+  maxRange?: number;
+}
+
+/** Заявка на перевозку, выставленная на текущий тик. */
+export interface LogisticsRequest {
+  id: string;
+  target: LogisticsTarget;
+  kind: LogisticsKind;
+  resource: ResourceConstant;
+  amount: number;
+  priority: number;
+  /** Сколько ещё не покрыто перевозчиками, которые уже везут или едут забирать. */
+  remaining: number;
+  maxRange?: number;
+}
+
+/** Закреплённая за перевозчиком заявка; хранится в `Memory.__logistics`. */
+export interface LogisticsClaim {
+  id: string;
+  kind: LogisticsKind;
+  resource: ResourceConstant;
+  amount: number;
+  roomName: string;
+  tick: number;
+}
+
+interface RoomRequests {
+  tick: number;
+  supply: Map<string, LogisticsRequest>;
+  demand: Map<string, LogisticsRequest>;
+}
+
+/** Приоритеты встроенных заявок: спаун и расширения раньше башен, хранилище — последним. */
+const PRIORITY = {
+  sourceLink: 110,
+  spawn: 100,
+  extension: 90,
+  tower: 70,
+  dropped: 60,
+  coreLink: 55,
+  sourceContainer: 50,
+  container: 20,
+  storage: 10,
+};
+/** Линк у источника принимает энергию только от крипов рядом: ради него не стоит идти через комнату. */
+const SOURCE_LINK_RANGE = 3;
+/** Закрепление, которое столько тиков не выполнено и не обновлено, считается брошенным. */
+const CLAIM_TIMEOUT = 300;
+
+// Requests are rebuilt every tick from the room itself plus whatever was posted this tick.
+const rooms = new Map<string, RoomRequests>();
+
+function getClaims(): Record<string, LogisticsClaim> {
+  if (!(Memory as any).__logistics) (Memory as any).__logistics = {};
+  const claims = (Memory as any).__logistics as Record<string, LogisticsClaim>;
+  for (const name of Object.keys(claims)) {
+    const claim = claims[name] as LogisticsClaim;
+    if (!Game.creeps[name] || Game.time - claim.tick > CLAIM_TIMEOUT) delete claims[name];
+  }
+  return claims;
+}
+
+function storedAmount(target: LogisticsTarget, resource: ResourceConstant): number {
+  if ("resourceType" in target) return target.resourceType === resource ? target.amount : 0;
+  return (target as { store?: StoreDefinition }).store?.getUsedCapacity(resource) ?? 0;
+}
+
+function freeAmount(target: LogisticsTarget, resource: ResourceConstant): number {
+  return (target as { store?: StoreDefinition }).store?.getFreeCapacity(resource) ?? 0;
+}
+
+function addRequest(requests: RoomRequests, kind: LogisticsKind, target: LogisticsTarget, options: PostOptions): void {
+  const resource = options.resource ?? RESOURCE_ENERGY;
+  const amount = options.amount ?? (kind === "supply" ? storedAmount(target, resource) : freeAmount(target, resource));
+  if (amount <= 0) return;
+  const id = target.id as string;
+  const request: LogisticsRequest = { id, target, kind, resource, amount, priority: options.priority ?? 0, remaining: amount };
+  if (options.maxRange !== undefined) request.maxRange = options.maxRange;
+  requests[kind].set(id, request);
+}
+
+function postDefaults(room: Room, requests: RoomRequests): void {
+  const sources = room.find(FIND_SOURCES) as Source[];
+  const nearSource = (s: Structure) => sources.some(source => s.pos.inRangeTo(source.pos, 1));
+
+  for (const s of room.find(FIND_STRUCTURES) as AnyStructure[]) {
+    if (s.structureType === STRUCTURE_SPAWN || s.structureType === STRUCTURE_EXTENSION) {
+      if ((s as OwnedStructure).my === false) continue;
+      addRequest(requests, "demand", s, { priority: s.structureType === STRUCTURE_SPAWN ? PRIORITY.spawn : PRIORITY.extension });
+    } else if (s.structureType === STRUCTURE_TOWER) {
+      if (s.my === false) continue;
+      addRequest(requests, "demand", s, { priority: PRIORITY.tower });
+    } else if (s.structureType === STRUCTURE_LINK) {
+      if (s.my === false) continue;
+      // Source links are emptied by runLinks; haulers only drain the core links next to storage.
+      const role = getLinkRole(s);
+      if (role === "source") addRequest(requests, "demand", s, { priority: PRIORITY.sourceLink, maxRange: SOURCE_LINK_RANGE });
+      else if (role === "hub" || role === "storage") addRequest(requests, "supply", s, { priority: PRIORITY.coreLink });
+    } else if (s.structureType === STRUCTURE_CONTAINER && nearSource(s)) {
+      addRequest(requests, "supply", s, { priority: PRIORITY.sourceContainer });
+    } else if (s.structureType === STRUCTURE_CONTAINER) {
+      // Other containers (at the controller, for instance) are only filled, never drained by haulers.
+      addRequest(requests, "demand", s, { priority: PRIORITY.container });
+    } else if (s.structureType === STRUCTURE_STORAGE) {
+      addRequest(requests, "demand", s, { priority: PRIORITY.storage });
+      addRequest(requests, "supply", s, { priority: PRIORITY.storage });
+    }
+  }
+  for (const drop of room.find(FIND_DROPPED_RESOURCES) as Resource[]) {
+    addRequest(requests, "supply", drop, { priority: PRIORITY.dropped, resource: drop.resourceType });
+  }
+}
+
+function getRoomRequests(roomName: string): RoomRequests | null {
+  const cached = rooms.get(roomName);
+  if (cached && cached.tick === Game.time) return cached;
+  const room = Game.rooms?.[roomName];
+  if (!room) return null;
+  const requests: RoomRequests = { tick: Game.time, supply: new Map(), demand: new Map() };
+  postDefaults(room, requests);
+  rooms.set(roomName, requests);
+  return requests;
+}
+
+function roomOf(target: LogisticsTarget): string {
+  return target.pos.roomName;
+}
+
+/**
+ * Выставляет предложение на текущий тик: из цели можно забрать ресурс. Повторная заявка по той же цели заменяет прежнюю.
+ * Спауны, расширения, башни, линки, контейнеры, хранилище и упавшие ресурсы выставляют заявки сами.
+ * @param target Структура, упавший ресурс, надгробие или руины.
+ * @param options Количество, приоритет и тип ресурса.
+ */
+export function postSupply(target: LogisticsTarget, options: PostOptions = {}): void {
+  const requests = getRoomRequests(roomOf(target));
+  if (requests) addRequest(requests, "supply", target, options);
+}
+
+/**
+ * Выставляет спрос на текущий тик: цели нужно привезти ресурс. Повторная заявка по той же цели заменяет прежнюю.
+ * @param target Структура или крип (например, апгрейдер, которому нужна энергия).
+ * @param options Количество, приоритет и тип ресурса.
+ */
+export function postDemand(target: LogisticsTarget, options: PostOptions = {}): void {
+  const requests = getRoomRequests(roomOf(target));
+  if (requests) addRequest(requests, "demand", target, options);
+}
+
+/**
+ * Сколько ресурса уже едет к цели (спрос) или от неё (предложение) у закреплённых перевозчиков.
+ * @param targetId Id цели.
+ * @param kind Сторона заявки.
+ * @param exceptCreep Не учитывать закрепление этого крипа.
+ */
+export function getInFlight(targetId: string, kind: LogisticsKind, exceptCreep?: string): number {
+  const claims = getClaims();
+  return Object.keys(claims)
+    .filter(name => name !== exceptCreep)
+    .map(name => claims[name] as LogisticsClaim)
+    .filter(c => c.id === targetId && c.kind === kind)
+    .reduce((sum, c) => sum + c.amount, 0);
+}
+
+/**
+ * Заявки комнаты на текущий тик с учётом уже закреплённых перевозок.
+ * @param roomName Имя видимой комнаты.
+ * @param kind Предложения или спрос.
+ * @returns Заявки по убыванию приоритета.
+ */
+export function getRequests(roomName: string, kind: LogisticsKind): LogisticsRequest[] {
+  const requests = getRoomRequests(roomName);
+  if (!requests) return [];
+  return Array.from(requests[kind].values())
+    .map(r => ({ ...r, remaining: r.amount - getInFlight(r.id, kind) }))
+    .sort((a, b) => b.priority - a.priority);
+}
+
+function claim(creep: Creep, kind: LogisticsKind, resource: ResourceConstant): LogisticsRequest | null {
+  const requests = getRoomRequests(creep.room.name);
+  if (!requests) return null;
+  const capacity =
+    kind === "demand" ? creep.store.getUsedCapacity(resource) : creep.store.getFreeCapacity(resource);
+  if (!capacity) return null;
+
+  const claims = getClaims();
+  const remainingFor = (r: LogisticsRequest) => r.amount - getInFlight(r.id, kind, creep.name);
+  // Energy is never carried back to where it was just taken from (storage is both a supply and a demand).
+  const drawnFrom = kind === "demand" ? (creep.memory as { _from?: string })._from : undefined;
+  const inReach = (r: LogisticsRequest) =>
+    r.id !== drawnFrom && (r.maxRange === undefined || creep.pos.getRangeTo(r.target) <= r.maxRange);
+  const current = claims[creep.name];
+  const kept = current && current.kind === kind && current.resource === resource ? requests[kind].get(current.id) : undefined;
+
+  let best: LogisticsRequest | undefined;
+  if (kept && remainingFor(kept) > 0 && inReach(kept)) {
+    best = kept;
+  } else {
+    const candidates = Array.from(requests[kind].values()).filter(r => r.resource === resource && inReach(r) && remainingFor(r) > 0);
+    candidates.sort(
+      (a, b) => b.priority - a.priority || creep.pos.getRangeTo(a.target) - creep.pos.getRangeTo(b.target),
+    );
+    best = candidates[0];
+  }
+  if (!best) {
+    delete claims[creep.name];
+    return null;
+  }
+
+  const remaining = remainingFor(best);
+  const amount = Math.min(remaining, capacity);
+  claims[creep.name] = { id: best.id, kind, resource, amount, roomName: creep.room.name, tick: Game.time };
+  return { ...best, remaining: remaining - amount };
+}
+
+/**
+ * Закрепляет за перевозчиком самую приоритетную (при равенстве — ближайшую) заявку спроса в его комнате,
+ * которую ещё не покрывают другие. Повторный вызов сохраняет прежнюю заявку, пока она актуальна.
+ * @param creep Перевозчик с ресурсом.
+ * @param resource Тип ресурса (по умолчанию энергия).
+ * @returns Заявка (цель в `target`) или `null`, если везти некуда.
+ */
+export function claimDemand(creep: Creep, resource: ResourceConstant = RESOURCE_ENERGY): LogisticsRequest | null {
+  return claim(creep, "demand", resource);
+}
+
+/**
+ * Закрепляет за перевозчиком заявку предложения, откуда забрать ресурс. Работает как `claimDemand`.
+ * @param creep Перевозчик со свободным местом.
+ * @param resource Тип ресурса (по умолчанию энергия).
+ * @returns Заявка или `null`, если забирать нечего.
+ */
+export function claimSupply(creep: Creep, resource: ResourceConstant = RESOURCE_ENERGY): LogisticsRequest | null {
+  return claim(creep, "supply", resource);
+}
+
+/**
+ * Текущее закрепление перевозчика.
+ * @param creep Перевозчик.
+ * @returns Закрепление или `null`.
+ */
+export function getClaim(creep: Creep): LogisticsClaim | null {
+  return getClaims()[creep.name] ?? null;
+}
+
+/**
+ * Цель текущего закрепления, чтобы к ней подойти.
+ * @param creep Перевозчик.
+ * @returns Объект цели или `null`, если закрепления нет или цель исчезла.
+ */
+export function getClaimTarget(creep: Creep): LogisticsTarget | null {
+  const current = getClaim(creep);
+  if (!current) return null;
+  const request = getRoomRequests(current.roomName)?.[current.kind].get(current.id);
+  return request?.target ?? (Game.getObjectById(current.id as Id<Structure>) as LogisticsTarget | null);
+}
+
+/**
+ * Снимает закрепление: перевозка выполнена или отменена. После заявки предложения крип запоминает
+ * в `memory._from`, откуда взял ресурс, и `claimDemand` не отправит его обратно туда же.
+ * @param creep Перевозчик.
+ */
+export function releaseClaim(creep: Creep): void {
+  const claims = getClaims();
+  const current = claims[creep.name];
+  if (current?.kind === "supply") (creep.memory as { _from?: string })._from = current.id;
+  delete claims[creep.name];
+}
@@ -0,0 +1,77 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert = require('node:assert');
+import { Role } from './roles';
+import {
+  getInitialMemory,
+  getMemoryVersion,
+  registerCreepMigration,
+  registerGlobalMigration,
+  registerMemorySchema,
+  runMemoryMigrations,
+} from './memorySchema';
+import { setupScreepsGlobals } from './__tests__/screeps-mock';
+
+registerMemorySchema(Role.Worker, { version: 2, defaults: { trips: 0 } });
+registerCreepMigration(Role.Worker, 1, memory => {
+  memory.targetId = memory.target;
+  delete memory.target;
+});
+registerCreepMigration(Role.Worker, 2, memory => {
+  memory.mode = memory.working === 'true' ? 'work' : 'refill';
+  delete memory.working;
+});
+registerGlobalMigration(1, memory => {
+  memory.__pm = { counter: memory.__pmCounter ?? 0 };
+  delete memory.__pmCounter;
+});
+
+describe('memory schema', () => {
+  beforeEach(() => setupScreepsGlobals());
+
+  test('old creeps run every pending migration once and get defaults', () => {
+    Memory.creeps = {
+      old: { role: Role.Worker, target: 'abc', working: 'true' } as unknown as CreepMemory,
+      half: { role: Role.Worker, _v: 1, targetId: 'x', working: 'false', trips: 4 } as unknown as CreepMemory,
+      fresh: { role: Role.Worker, _v: 2, mode: 'work', trips: 1 } as unknown as CreepMemory,
+      other: { role: Role.Soldier } as CreepMemory,
+    };
+
+    const report = runMemoryMigrations();
+    assert.strictEqual(report.creeps.join(','), 'old,half');
+
+    const old = Memory.creeps['old'] as any;
+    assert.strictEqual(old.targetId, 'abc');
+    assert.strictEqual(old.target, undefined);
+    assert.strictEqual(old.mode, 'work');
+    assert.strictEqual(old.trips, 0);
+    assert.strictEqual(old._v, 2);
+
+    const half = Memory.creeps['half'] as any;
+    assert.strictEqual(half.targetId, 'x');
+    assert.strictEqual(half.mode, 'refill');
+    assert.strictEqual(half.trips, 4);
+
+    assert.strictEqual(runMemoryMigrations().creeps.length, 0);
+  });
+
+  test('global migrations move Memory globals and record the version', () => {
+    (Memory as any).__pmCounter = 7;
+    runMemoryMigrations();
+    assert.strictEqual((Memory as any).__pm.counter, 7);
+    assert.strictEqual((Memory as any).__pmCounter, undefined);
+    assert.strictEqual((Memory as any).__schemaVersion, 1);
+
+    const again = runMemoryMigrations();
+    assert.strictEqual(again.globalFrom, 1);
+    assert.strictEqual(again.globalTo, 1);
+  });
+
+  test('new creeps start at the current version', () => {
+    assert.strictEqual(getMemoryVersion(Role.Worker), 2);
+    assert.strictEqual(getMemoryVersion(Role.Harvester), 0);
+    const memory = getInitialMemory(Role.Worker);
+    assert.strictEqual(memory._v, 2);
+    assert.strictEqual(memory.trips, 0);
+    assert.strictEqual(getInitialMemory(Role.Harvester)._v, undefined);
+  });
+});
@@ -0,0 +1,136 @@
+import { RoleMemory, RoleName } from "./roles";
+
+/** Версия и значения по умолчанию для памяти крипов одной роли. */
+export interface MemorySchema<R extends RoleName = RoleName> {
+  /** Текущая версия памяти; крипы с меньшей `_v` прогоняются через миграции. */
+  version: number;
+  /** Значения, которые дописываются в память новых и мигрированных крипов, если ключа нет. */
+  defaults?: Partial<RoleMemory<R>>;
+}
+
+/** Миграция памяти крипа к версии, под которой она зарегистрирована. Меняет `memory` на месте. */
+export type CreepMigration = (memory: Record<string, unknown>, creepName: string) => void;
+
+/** Миграция глобального `Memory` к версии, под которой она зарегистрирована. Меняет `memory` на месте. */
+export type GlobalMigration = (memory: Record<string, unknown>) => void;
+
+/** Итог `runMemoryMigrations`. */
+export interface MigrationReport {
+  /** Версия глобальной памяти до миграций. */
+  globalFrom: number;
+  /** Версия глобальной памяти после миграций. */
+  globalTo: number;
+  /** Имена крипов, чья память была обновлена. */
+  creeps: string[];
+}
+
+interface Migration<T> {
+  version: number;
+  migrate: T;
+}
+
+const schemas: Partial<Record<RoleName, MemorySchema>> = {};
+const creepMigrations: Partial<Record<RoleName, Array<Migration<CreepMigration>>>> = {};
+const globalMigrations: Array<Migration<GlobalMigration>> = [];
+
+function addMigration<T>(list: Array<Migration<T>>, version: number, migrate: T): void {
+  list.push({ version, migrate });
+  list.sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Объявляет схему памяти роли: текущую версию и значения по умолчанию.
+ * Типы ключей задаются через `RoleMemorySchemas` в `roles.ts`.
+ * @param role Роль крипов.
+ * @param schema Версия и значения по умолчанию.
+ */
+export function registerMemorySchema<R extends RoleName>(role: R, schema: MemorySchema<R>): void {
+  schemas[role] = schema as MemorySchema;
+}
+
+/**
+ * Регистрирует миграцию памяти крипов роли. Выполняется для крипов, чья `_v` меньше `version`.
+ * @param role Роль крипов.
+ * @param version Версия, к которой приводит миграция.
+ * @param migrate Функция, переделывающая память крипа.
+ */
+export function registerCreepMigration(role: RoleName, version: number, migrate: CreepMigration): void {
+  addMigration((creepMigrations[role] ??= []), version, migrate);
+}
+
+/**
+ * Регистрирует миграцию глобального `Memory` (например, `__pmCounter` или `__pmQueue`).
+ * Выполняется один раз, пока `Memory.__schemaVersion` меньше `version`.
+ * @param version Версия, к которой приводит миграция.
+ * @param migrate Функция, переделывающая `Memory`.
+ */
+export function registerGlobalMigration(version: number, migrate: GlobalMigration): void {
+  addMigration(globalMigrations, version, migrate);
+}
+
+/**
+ * Текущая версия памяти роли: из схемы или по последней зарегистрированной миграции.
+ * @param role Роль крипов.
+ * @returns Номер версии; `0`, если у роли нет ни схемы, ни миграций.
+ */
+export function getMemoryVersion(role: RoleName): number {
+  const last = creepMigrations[role]?.slice(-1)[0];
+  return Math.max(schemas[role]?.version ?? 0, last?.version ?? 0);
+}
+
+/**
+ * Память для нового крипа роли: значения по умолчанию и текущая версия `_v`.
+ * `PopulationManager` добавляет её сам; при ручном спауне передайте её в `memory`.
+ * @param role Роль крипа.
+ * @returns Объект, который можно дополнить своими ключами.
+ */
+export function getInitialMemory(role: RoleName): Record<string, unknown> {
+  const version = getMemoryVersion(role);
+  const memory: Record<string, unknown> = { ...(schemas[role]?.defaults ?? {}) };
+  if (version > 0) memory._v = version;
+  return memory;
+}
+
+function migrateCreep(name: string, memory: Record<string, unknown>): boolean {
+  const role = memory.role as RoleName | undefined;
+  if (!role) return false;
+  const version = getMemoryVersion(role);
+  // Creeps without `_v` predate the schema and go through every migration.
+  const from = (memory._v as number | undefined) ?? 0;
+  if (from >= version) return false;
+
+  for (const m of creepMigrations[role] ?? []) {
+    if (m.version > from && m.version <= version) m.migrate(memory, name);
+  }
+  const defaults = (schemas[role]?.defaults ?? {}) as Record<string, unknown>;
+  for (const key of Object.keys(defaults)) {
+    if (memory[key] === undefined) memory[key] = defaults[key];
+  }
+  memory._v = version;
+  return true;
+}
+
+/**
+ * Приводит глобальную память и память всех крипов к текущим версиям.
+ * Вызывайте первой строкой `loop`, до любой логики, которая читает память.
+ * @returns Какие версии и каких крипов затронули миграции.
+ */
+export function runMemoryMigrations(): MigrationReport {
+  const root = Memory as unknown as Record<string, unknown>;
+  const globalFrom = (root.__schemaVersion as number | undefined) ?? 0;
+  let globalTo = globalFrom;
+  for (const m of globalMigrations) {
+    if (m.version <= globalTo) continue;
+    m.migrate(root);
+    globalTo = m.version;
+  }
+  if (globalTo !== globalFrom) root.__schemaVersion = globalTo;
+
+  const creeps: string[] = [];
+  const memories = (Memory.creeps ?? {}) as Record<string, Record<string, unknown>>;
+  for (const name in memories) {
+    const memory = memories[name];
+    if (memory && migrateCreep(name, memory)) creeps.push(name);
+  }
+  return { globalFrom, globalTo, creeps };
+}
@@ -87,7 +87,9 @@ export function CombatMixin<
     }
 
     /**
-     * Отступает к базе/спауну при появлении врагов.
+     * Отступает к базе/спауну при появлении врагов. Пути отступления и возвращения домой
+     * обходят опасные зоны вражеских башен и боевых крипов; путь домой, сохранённый до их появления,
+     * строится заново (см. `travelTo`).
      * @returns Статус движения или `NO_TARGET`, если отсутствуют данные о комнате или спауне.
      */
     fleeToBase(): ActionStatus {
@@ -1,5 +1,12 @@
 import { ActionStatus } from "../status";
 import { SimpleCreepBase, SimpleCreepConstructor } from "../simpleCreepBase";
+import { isRoomAvoided, travelTo, travelToRoom } from "../movement";
+import { registerMove, registerWork } from "../traffic";
+import { getCostMatrix } from "../costMatrix";
+import { assignSource, getMiningAssignment, getSourceContainer } from "../sourceAssignment";
+import { Role } from "../roles";
+import { recordEnergy } from "../economy";
+import { findBestEnergySource } from "../energySources";
 
 export type ClosestTargetType =
   | "source"
@@ -9,7 +16,9 @@ export type ClosestTargetType =
   | "spawn"
   | "extension"
   | "tower"
-  | "droppedEnergy";
+  | "droppedEnergy"
+  | "energy"
+  | "mineral";
 
 export interface HarvestingCapabilities {
   full(): boolean;
@@ -19,9 +28,13 @@ export interface HarvestingCapabilities {
   moveTo(target: RoomPosition | { pos: RoomPosition } | RoomObject): ActionStatus;
   moveNear(target: RoomPosition | { pos: RoomPosition } | RoomObject): ActionStatus;
   stayAwayFrom(target: RoomPosition | { pos: RoomPosition } | RoomObject, distance: number): ActionStatus;
+  moveToRoom(roomName: string): ActionStatus;
   goHome(): ActionStatus;
   storeEnergyToBase(): ActionStatus;
-  harvest(source: Source): ActionStatus;
+  harvest(target: Source | Mineral): ActionStatus;
+  getExtractor(mineral: Mineral): StructureExtractor | null;
+  claimSource(): Source | null;
+  mineAssignedSource(): ActionStatus;
   transferEnergyTo(target: Structure | RoomObject): ActionStatus;
   withdraw(target: Structure | any): ActionStatus;
   findClosestTarget(type: ClosestTargetType): RoomObject | Structure | null;
@@ -34,8 +47,11 @@ export function HarvestingMixin<TBase extends SimpleCreepConstructor<SimpleCreep
     }
 
     /**
-     * Найти ближайший объект указанного типа в текущей комнате.
-     * @param type Тип цели: источник, контроллер, хранилище, контейнер, спаун, расширение, башня или сброшенная энергия.
+     * Найти ближайший объект указанного типа в текущей комнате. Для харвестеров `source` — источник,
+     * за которым крип закреплён (см. `claimSource`), чтобы они не толпились у одного источника.
+     * Для `droppedEnergy` и `energy` выбирается не ближайшая, а лучшая цель по `findBestEnergySource`.
+     * @param type Тип цели: источник, контроллер, хранилище, контейнер, спаун, расширение, башня, сброшенная энергия,
+     * любая энергия (кучи, надгробия, руины, контейнеры, хранилище) или минерал.
      * @returns Ближайшая подходящая цель или `null`, если ничего не найдено.
      */
     findClosestTarget(type: ClosestTargetType): RoomObject | Structure | null {
@@ -44,6 +60,10 @@ export function HarvestingMixin<TBase extends SimpleCreepConstructor<SimpleCreep
 
       switch (type) {
         case "source": {
+          if (this.creep.memory.role === Role.Harvester) {
+            const claimed = this.claimSource();
+            if (claimed) return claimed;
+          }
           const sources = room.find(FIND_SOURCES) as Source[];
           return (this.creep.pos.findClosestByRange(sources) as Source | null) ?? null;
         }
@@ -73,11 +93,13 @@ export function HarvestingMixin<TBase extends SimpleCreepConstructor<SimpleCreep
           }) as StructureTower[];
           return (this.creep.pos.findClosestByRange(towers) as StructureTower | null) ?? null;
         }
-        case "droppedEnergy": {
-          const drops = room.find(FIND_DROPPED_RESOURCES, {
-            filter: r => r.resourceType === RESOURCE_ENERGY,
-          }) as Resource[];
-          return (this.creep.pos.findClosestByRange(drops) as Resource | null) ?? null;
+        case "droppedEnergy":
+          return findBestEnergySource(this.creep, { kinds: ["dropped"] });
+        case "energy":
+          return findBestEnergySource(this.creep);
+        case "mineral": {
+          const minerals = room.find(FIND_MINERALS) as Mineral[];
+          return (this.creep.pos.findClosestByRange(minerals) as Mineral | null) ?? null;
         }
         default:
           return null;
@@ -110,32 +132,31 @@ export function HarvestingMixin<TBase extends SimpleCreepConstructor<SimpleCreep
     }
 
     /**
-     * Перемещает крипа к целевой позиции или объекту.
-     * @returns `ALREADY_THERE`, если крип уже на цели, `NO_PATH` при ошибке пути, `ERROR` для прочих ошибок, иначе `MOVING`.
+     * Перемещает крипа к целевой позиции или объекту по пути, сохранённому в памяти (см. `travelTo`).
+     * @returns `ALREADY_THERE`, если крип уже на цели, `STUCK`, если он застрял и путь перестроен,
+     * `NO_PATH` при ошибке пути, `ERROR` для прочих ошибок, иначе `MOVING`.
      */
     moveTo(target: RoomPosition | { pos: RoomPosition } | RoomObject): ActionStatus {
-      if (this.isNear(target, 0)) return ActionStatus.ALREADY_THERE;
-      const moveResult = this.creep.moveTo(target as any, { visualizePathStyle: { stroke: "#ffffff" } }) as number;
-      if (moveResult === ERR_NO_PATH) return ActionStatus.NO_PATH;
-      if (moveResult !== OK && moveResult !== ERR_TIRED) return ActionStatus.ERROR;
-      return ActionStatus.MOVING;
+      const pos = (target as any).pos ?? target;
+      return travelTo(this.creep, pos);
     }
 
     /**
      * Сближает крипа с целью до дистанции 1.
      * @param target Позиция или объект, к которому нужно подойти.
-     * @returns `ALREADY_NEAR`, если крип уже рядом, `NO_PATH` при ошибке пути, иначе `MOVING`.
+     * @returns `ALREADY_NEAR`, если крип уже рядом, `STUCK`, `NO_PATH` или `ERROR` от `moveTo`, иначе `MOVING`.
      */
     moveNear(target: RoomPosition | { pos: RoomPosition } | RoomObject): ActionStatus {
       if (this.isNear(target, 1)) return ActionStatus.ALREADY_NEAR;
-      const result = this.moveTo(target);
-      if (result === ActionStatus.NO_PATH) return ActionStatus.NO_PATH;
-      if (result === ActionStatus.ERROR) return ActionStatus.ERROR;
-      return ActionStatus.MOVING;
+      const pos = (target as any).pos ?? target;
+      const result = travelTo(this.creep, pos, { range: 1 });
+      if (result === ActionStatus.ALREADY_THERE) return ActionStatus.ALREADY_NEAR;
+      return result;
     }
 
     /**
-     * Держит дистанцию не ближе указанного значения, отступая при необходимости.
+     * Держит дистанцию не ближе указанного значения, отступая при необходимости. Путь отступления
+     * обходит крипов и опасные зоны вражеских башен (см. `getCostMatrix`).
      * @param target Цель, от которой нужно держаться подальше.
      * @param distance Минимальная дистанция до цели.
      * @returns `SAFE`, если дистанция безопасна, `RETREATING` во время отступления, либо `NO_PATH`/`ERROR` при ошибках.
@@ -147,7 +168,10 @@ export function HarvestingMixin<TBase extends SimpleCreepConstructor<SimpleCreep
 
       const fleeSearch = PathFinder.search(this.creep.pos, [{ pos, range: distance }], {
         flee: true,
-        maxRooms: 1,
+        maxRooms: 2,
+        plainCost: 2,
+        swampCost: 10,
+        roomCallback: roomName => (isRoomAvoided(roomName) ? false : getCostMatrix(roomName, { creeps: true, danger: true })),
       });
       const next = fleeSearch.path[0];
       if (!next) return ActionStatus.NO_PATH;
@@ -155,20 +179,30 @@ export function HarvestingMixin<TBase extends SimpleCreepConstructor<SimpleCreep
       const dir = this.creep.pos.getDirectionTo(next);
       const moveResult = this.creep.move(dir);
       if (moveResult !== OK && moveResult !== ERR_TIRED) return ActionStatus.ERROR;
+      if (moveResult === OK) registerMove(this.creep, next);
       return ActionStatus.RETREATING;
     }
 
     /**
-     * Перемещает крипа к флагу в той же комнате.
+     * Перемещает крипа к флагу, в том числе в другой комнате.
      * @param flagName Имя целевого флага.
-     * @returns Статус движения или `NO_TARGET`, если флаг недоступен.
+     * @returns Статус движения или `NO_TARGET`, если флага нет.
      */
     moveToFlag(flagName: string): ActionStatus {
       const flag = Game.flags[flagName];
-      if (!flag || flag.pos.roomName !== this.creep.room?.name) return ActionStatus.NO_TARGET;
+      if (!flag) return ActionStatus.NO_TARGET;
       return this.moveTo(flag.pos);
     }
 
+    /**
+     * Ведёт крипа в другую комнату по маршруту `Game.map.findRoute`, обходя комнаты из `avoidRoom`.
+     * @param roomName Комната назначения.
+     * @returns `ALREADY_THERE`, если крип уже в комнате и сошёл с клетки выхода, `NO_PATH`, если маршрута нет, иначе статус движения.
+     */
+    moveToRoom(roomName: string): ActionStatus {
+      return travelToRoom(this.creep, roomName);
+    }
+
     /**
      * Проверяет совпадение позиции крипа с указанными координатами.
      * @param position Целевая позиция для сравнения.
@@ -183,27 +217,30 @@ export function HarvestingMixin<TBase extends SimpleCreepConstructor<SimpleCreep
     }
 
     /**
-     * Двигает крипа к ближайшему спауну в комнате (приоритет `homeSpawnName`, если задан)
-     * и останавливается на дистанции 1.
-     * @returns `MOVING` во время движения или `ALREADY_THERE`, если крип уже рядом.
+     * Двигает крипа к домашнему спауну и останавливается на дистанции 1. Дом — `homeSpawnName`, если задан,
+     * иначе ближайший спаун в комнате `memory.home` (или в текущей). Из чужой комнаты крип сначала идёт домой.
+     * @returns `MOVING` во время движения, `ALREADY_THERE`, если крип уже рядом, `STUCK` или `NO_PATH` от `travelTo`.
      */
     goHome(): ActionStatus {
       const room = this.creep.room;
       if (!room) return ActionStatus.NO_TARGET;
 
-      let spawns = room.find(FIND_MY_SPAWNS) as StructureSpawn[];
-      if (this.homeSpawnName) {
-        const preferred = Game.spawns[this.homeSpawnName];
-        if (preferred && preferred.room === room) spawns = [preferred];
+      const preferred = this.homeSpawnName ? Game.spawns[this.homeSpawnName] : undefined;
+      const home = preferred?.room.name ?? (this.creep.memory.home as string | undefined) ?? room.name;
+
+      let spawn: StructureSpawn | null | undefined = preferred;
+      if (!spawn && home === room.name) {
+        const spawns = room.find(FIND_MY_SPAWNS) as StructureSpawn[];
+        spawn = this.creep.pos.findClosestByRange(spawns) as StructureSpawn | null;
+      } else if (!spawn) {
+        spawn = Object.keys(Game.spawns)
+          .map(name => Game.spawns[name] as StructureSpawn)
+          .find(s => s.room.name === home);
       }
-
-      if (!spawns || spawns.length === 0) return ActionStatus.NO_TARGET;
-      const spawn = this.creep.pos.findClosestByRange(spawns) as StructureSpawn | null;
-      if (!spawn) return ActionStatus.NO_TARGET;
+      if (!spawn) return home === room.name ? ActionStatus.NO_TARGET : this.moveToRoom(home);
 
       if (this.isNear(spawn, 1)) return ActionStatus.ALREADY_THERE;
-      this.creep.moveTo(spawn as any);
-      return ActionStatus.MOVING;
+      return travelTo(this.creep, spawn.pos, { range: 1 });
     }
 
     /**
@@ -243,16 +280,90 @@ export function HarvestingMixin<TBase extends SimpleCreepConstructor<SimpleCreep
     }
 
     /**
-     * Добывает энергию из источника, стоя рядом с ним.
-     * @returns `HARVESTING` при успехе, `NOT_IN_RANGE`, если далеко, иначе `ERROR`.
+     * Добывает энергию из источника или минерал через экстрактор, стоя рядом. Закреплённый майнер с контейнером
+     * у источника сбрасывает добычу в контейнер (стоя на нём — просто продолжает копать) и не ходит на базу.
+     * @param target Источник или минерал.
+     * @returns `HARVESTING` при успехе, `NOT_IN_RANGE`, если далеко; для минерала — `NO_TARGET` без экстрактора,
+     * `COOLDOWN`, пока экстрактор перезаряжается, `DEPLETED`, пока минерал восстанавливается; иначе `ERROR`.
      */
-    harvest(source: Source): ActionStatus {
-      if (!this.isNear(source, 1)) return ActionStatus.NOT_IN_RANGE;
+    harvest(target: Source | Mineral): ActionStatus {
+      if (!this.isNear(target, 1)) return ActionStatus.NOT_IN_RANGE;
+      if ("mineralType" in target) return this.harvestMineral(target);
+
+      const source = target;
       const res = this.creep.harvest(source);
-      if (res === OK) return ActionStatus.HARVESTING;
+      if (res !== OK) return ActionStatus.ERROR;
+
+      registerWork(this.creep, source.pos, 1);
+      const yieldPerTick = (this.creep.body ?? []).filter(p => p.type === WORK && p.hits > 0).length * HARVEST_POWER;
+      recordEnergy(source.pos.roomName, "harvest", Math.min(yieldPerTick, source.energy ?? yieldPerTick));
+      const assignment = getMiningAssignment(this.creep);
+      if (assignment && assignment.sourceId === source.id) {
+        const container = getSourceContainer(source);
+        const free = this.creep.store.getFreeCapacity(RESOURCE_ENERGY) ?? 0;
+        if (container && !this.isNear(container, 0) && this.isNear(container, 1) && free < yieldPerTick) {
+          this.creep.transfer(container, RESOURCE_ENERGY);
+        }
+      }
+      return ActionStatus.HARVESTING;
+    }
+
+    /**
+     * Находит экстрактор, построенный на минерале.
+     * @param mineral Минерал комнаты.
+     * @returns Свой экстрактор или `null` (до RCL6 его не бывает).
+     */
+    getExtractor(mineral: Mineral): StructureExtractor | null {
+      const structures = mineral.pos.lookFor(LOOK_STRUCTURES) as Structure[];
+      const extractor = structures.find(s => s.structureType === STRUCTURE_EXTRACTOR) as StructureExtractor | undefined;
+      return extractor && extractor.my ? extractor : null;
+    }
+
+    private harvestMineral(mineral: Mineral): ActionStatus {
+      const extractor = this.getExtractor(mineral);
+      if (!extractor) return ActionStatus.NO_TARGET;
+      if (mineral.mineralAmount === 0) return ActionStatus.DEPLETED;
+      if (extractor.cooldown > 0) return ActionStatus.COOLDOWN;
+
+      const res = this.creep.harvest(mineral);
+      if (res === OK) {
+        registerWork(this.creep, mineral.pos, 1);
+        return ActionStatus.HARVESTING;
+      }
+      if (res === ERR_TIRED) return ActionStatus.COOLDOWN;
+      if (res === ERR_NOT_ENOUGH_RESOURCES) return ActionStatus.DEPLETED;
       return ActionStatus.ERROR;
     }
 
+    /**
+     * Закрепляет крипа за источником, которому не хватает WORK, и резервирует клетку (см. `assignSource`).
+     * @returns Закреплённый источник или `null`, если свободных нет.
+     */
+    claimSource(): Source | null {
+      const room = this.creep.room;
+      if (!room) return null;
+      const home = this.creep.memory.home as string | undefined;
+      const assignment = assignSource(this.creep, (home && Game.rooms?.[home]) || room);
+      return assignment ? Game.getObjectById(assignment.sourceId) : null;
+    }
+
+    /**
+     * Статичная добыча: идёт на закреплённую клетку у источника и копает, сбрасывая энергию в контейнер.
+     * @returns `HARVESTING` на месте, статус движения в пути или `NO_TARGET`, если закрепить крипа не удалось.
+     */
+    mineAssignedSource(): ActionStatus {
+      const source = this.claimSource();
+      const assignment = getMiningAssignment(this.creep);
+      if (!source || !assignment) return ActionStatus.NO_TARGET;
+
+      const spot = new RoomPosition(assignment.x, assignment.y, assignment.roomName);
+      if (!this.isAt(spot)) {
+        const moving = travelTo(this.creep, spot);
+        if (moving !== ActionStatus.ALREADY_THERE) return moving;
+      }
+      return this.harvest(source);
+    }
+
     /**
      * Передаёт энергию указанной цели, ожидая, что крип уже в радиусе 1.
      * @returns `TRANSFERRING` при успешной передаче, `NOT_IN_RANGE`, если далеко, `EMPTY`, если нет энергии.
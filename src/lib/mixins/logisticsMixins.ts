@@ -1,6 +1,12 @@
 import { ActionStatus } from "../status";
 import { SimpleCreepBase, SimpleCreepConstructor } from "../simpleCreepBase";
 import { HarvestingCapabilities } from "./harvestingMixins";
+import { claimDemand, claimSupply, releaseClaim } from "../logisticsBroker";
+import { getLinkRole } from "../links";
+import { EnergySource, findBestEnergySource } from "../energySources";
+
+/** Линк на таком расстоянии считается «рядом»: дойти до него дешевле, чем до хранилища. */
+const NEARBY_LINK_RANGE = 3;
 
 export function LogisticsMixin<
   TBase extends SimpleCreepConstructor<SimpleCreepBase & HarvestingCapabilities>,
@@ -11,67 +17,47 @@ export function LogisticsMixin<
     }
 
     /**
-     * Ищет лучший источник энергии, отличный от добычи (сначала дроп, затем контейнеры, затем хранилище).
-     * @returns Сброшенный ресурс, контейнер, хранилище или `null`, если целей нет.
+     * Ищет лучший источник энергии, отличный от добычи: линк рядом (кроме линков у источников), иначе
+     * лучший по `findBestEnergySource` среди куч, надгробий, руин, контейнеров и хранилища —
+     * с учётом количества, расстояния и того, что исчезнет раньше, чем крип дойдёт.
+     * @returns Линк, куча, надгробие, руины, контейнер, хранилище или `null`, если целей нет.
      */
-    findEnergyDropOrContainer(): Resource | StructureContainer | StructureStorage | null {
+    findEnergyDropOrContainer(): StructureLink | EnergySource | null {
       const room = this.creep.room;
       if (!room) return null;
 
-      const spawn = room.find(FIND_MY_SPAWNS)[0];
-
-      const dropped = room.find(FIND_DROPPED_RESOURCES, {
-        filter: r => r.resourceType === RESOURCE_ENERGY,
-      }) as Resource[];
-      if (dropped.length > 0) {
-        const target = spawn ? spawn.pos.findClosestByRange(dropped) : this.creep.pos.findClosestByRange(dropped);
-        if (target) return target;
-      }
-
-      const containers = room.find(FIND_STRUCTURES, {
+      // Upgraders next to the controller link should never walk to storage for energy.
+      const links = room.find(FIND_MY_STRUCTURES, {
         filter: s =>
-          s.structureType === STRUCTURE_CONTAINER &&
-          (s.store?.getUsedCapacity(RESOURCE_ENERGY) ?? 0) > 0,
-      }) as StructureContainer[];
-      if (containers.length > 0) {
-        const target = this.creep.pos.findClosestByRange(containers) as StructureContainer | null;
-        if (target) return target;
-      }
-
-      const storages = room.find(FIND_STRUCTURES, {
-        filter: s => s.structureType === STRUCTURE_STORAGE && (s.store?.getUsedCapacity(RESOURCE_ENERGY) ?? 0) > 0,
-      }) as StructureStorage[];
-      if (storages.length > 0) {
-        const target = this.creep.pos.findClosestByRange(storages) as StructureStorage | null;
-        if (target) return target;
-      }
-
-      return null;
+          s.structureType === STRUCTURE_LINK &&
+          s.store.getUsedCapacity(RESOURCE_ENERGY) > 0 &&
+          this.creep.pos.inRangeTo(s.pos, NEARBY_LINK_RANGE) &&
+          getLinkRole(s) !== "source",
+      }) as StructureLink[];
+      const link = this.creep.pos.findClosestByRange(links) as StructureLink | null;
+      if (link) return link;
+
+      return findBestEnergySource(this.creep);
     }
 
     /**
-     * Подбирает сброшенную энергию или извлекает её из контейнера/хранилища без перемещения.
-     * @returns Статус действия или `FULL`/`NO_TARGET`, если нет места или целей.
+     * Подбирает упавшую энергию (`pickup`) или забирает её из линка, надгробия, руин, контейнера
+     * или хранилища (`withdraw`) без перемещения. Цель выбирает `findEnergyDropOrContainer`.
+     * @returns Статус действия, `NOT_IN_RANGE`, если цель далеко, или `FULL`/`NO_TARGET`, если нет места или целей.
      */
     pickupOrWithdrawEnergy(): ActionStatus {
       if (this.full()) return ActionStatus.FULL;
 
       const target = this.findEnergyDropOrContainer();
       if (!target) return ActionStatus.NO_TARGET;
+      if (!this.isNear(target, 1)) return ActionStatus.NOT_IN_RANGE;
 
-      if ((target as Resource).resourceType === RESOURCE_ENERGY) {
-        const resTarget = target as Resource;
-        if (!this.isNear(resTarget, 1)) return ActionStatus.NOT_IN_RANGE;
-        const res = this.creep.pickup(resTarget);
+      if ("resourceType" in target) {
+        const res = this.creep.pickup(target);
         if (res === OK) return ActionStatus.PICKING_UP;
         return ActionStatus.ERROR;
       }
-
-      if (!this.isNear(target, 1)) return ActionStatus.NOT_IN_RANGE;
-
-      const withdrawResult = this.withdraw(target as any);
-      if (withdrawResult === ActionStatus.WITHDRAWING) return ActionStatus.WITHDRAWING;
-      return withdrawResult;
+      return this.withdraw(target);
     }
 
     /**
@@ -148,62 +134,193 @@ export function LogisticsMixin<
     }
 
     /**
-     * Размещает энергию в базовых структурах (спауны, расширения, башни, контейнеры/хранилище) без передвижения.
-     * @returns Статус передачи или `NO_TARGET`, если всем хватает энергии.
+     * Отвозит энергию по заявкам спроса комнаты (см. `claimDemand`): спаун → расширения → башни → контейнеры/хранилище.
+     * Заявка закрепляется за крипом, поэтому другие перевозчики не везут энергию туда же. Сам крип не двигается:
+     * при `NOT_IN_RANGE` подойдите к `getClaimTarget(creep)`.
+     * @returns Статус передачи, `NOT_IN_RANGE`, `EMPTY` или `NO_TARGET`, если всем хватает энергии.
      */
     deliverEnergyToBase(): ActionStatus {
       if (this.empty()) return ActionStatus.EMPTY;
 
-      const room = this.creep.room;
-      if (!room) return ActionStatus.NO_TARGET;
+      const task = claimDemand(this.creep, RESOURCE_ENERGY);
+      if (!task) return ActionStatus.NO_TARGET;
+      const status = this.transferEnergyTo(task.target);
+      if (status !== ActionStatus.NOT_IN_RANGE) releaseClaim(this.creep);
+      return status;
+    }
 
-      const spawns = room.find(FIND_MY_SPAWNS);
-      if (spawns && spawns.length > 0) {
-        const spawn = spawns[0];
-        if (!spawn) return ActionStatus.NO_TARGET;
+    /**
+     * Сколько указанного ресурса несёт крип.
+     * @param resource Тип ресурса (по умолчанию энергия).
+     * @returns Количество единиц.
+     */
+    getResourceLevel(resource: ResourceConstant = RESOURCE_ENERGY): number {
+      return this.creep.store?.getUsedCapacity(resource) ?? 0;
+    }
 
-        if (this.needsEnergyFill(spawn)) return this.transferEnergyTo(spawn);
-      }
+    /**
+     * Проверяет, что крип больше не может взять указанный ресурс.
+     * @param resource Тип ресурса (по умолчанию энергия).
+     * @returns `true`, если свободного места под ресурс нет.
+     */
+    fullOf(resource: ResourceConstant = RESOURCE_ENERGY): boolean {
+      return (this.creep.store?.getFreeCapacity(resource) ?? 0) === 0;
+    }
 
-      const extensions = room.find(FIND_STRUCTURES, {
-        filter: s =>
-          s.structureType === STRUCTURE_EXTENSION &&
-          (s.store.getFreeCapacity ? s.store.getFreeCapacity(RESOURCE_ENERGY) : (s.energyCapacity - (s.energy ?? 0))) > 0,
-      }) as StructureExtension[];
-      if (extensions && extensions.length > 0) {
-        const target = this.creep.pos.findClosestByRange(extensions) as StructureExtension;
-        if (target) return this.transferEnergyTo(target);
-      }
+    /**
+     * Проверяет, что крип не несёт указанный ресурс.
+     * @param resource Тип ресурса (по умолчанию энергия).
+     * @returns `true`, если ресурса нет.
+     */
+    emptyOf(resource: ResourceConstant = RESOURCE_ENERGY): boolean {
+      return this.getResourceLevel(resource) === 0;
+    }
 
-      const towers = room.find(FIND_STRUCTURES, {
-        filter: s =>
-          s.structureType === STRUCTURE_TOWER &&
-          (s.store.getFreeCapacity ? s.store.getFreeCapacity(RESOURCE_ENERGY) : (s.energyCapacity - (s.energy ?? 0))) > 0,
-      }) as StructureTower[];
-      if (towers && towers.length > 0) {
-        const target = this.creep.pos.findClosestByRange(towers) as StructureTower;
-        if (target) return this.transferEnergyTo(target);
-      }
+    /**
+     * Список ресурсов, которые сейчас несёт крип.
+     * @returns Типы ресурсов с ненулевым количеством.
+     */
+    getCarriedResources(): ResourceConstant[] {
+      const store = this.creep.store as unknown as Record<string, unknown>;
+      if (!store) return [];
+      // Store methods live on the prototype, so own keys are resource types.
+      return Object.keys(store).filter(r => typeof store[r] === "number" && (store[r] as number) > 0) as ResourceConstant[];
+    }
 
-      const containers = room.find(FIND_STRUCTURES, {
+    /**
+     * Передаёт ресурс соседней цели без перемещения.
+     * @param target Структура или крип на дистанции 1.
+     * @param resource Тип ресурса (по умолчанию энергия).
+     * @param amount Сколько передать; без значения — сколько поместится.
+     * @returns `TRANSFERRING` при успехе, `EMPTY`, если ресурса нет, `NOT_IN_RANGE`, если далеко,
+     * `TARGET_FULL`, если у цели нет места, иначе `ERROR`.
+     */
+    transferResource(
+      target: AnyCreep | Structure,
+      resource: ResourceConstant = RESOURCE_ENERGY,
+      amount?: number,
+    ): ActionStatus {
+      const carried = this.getResourceLevel(resource);
+      if (carried === 0) return ActionStatus.EMPTY;
+      if (!this.isNear(target, 1)) return ActionStatus.NOT_IN_RANGE;
+
+      const targetStore = (target as { store?: StoreDefinition }).store;
+      const free = targetStore ? targetStore.getFreeCapacity(resource) ?? 0 : null;
+      if (free !== null && free <= 0) return ActionStatus.TARGET_FULL;
+
+      const res =
+        amount === undefined
+          ? this.creep.transfer(target, resource)
+          : this.creep.transfer(target, resource, Math.min(amount, carried, free ?? amount));
+      if (res === OK) return ActionStatus.TRANSFERRING;
+      if (res === ERR_FULL) return ActionStatus.TARGET_FULL;
+      return ActionStatus.ERROR;
+    }
+
+    /**
+     * Сбрасывает в цель всё, что несёт крип: по одному типу ресурса за тик (так устроена игра).
+     * @param target Структура или крип на дистанции 1.
+     * @returns `TRANSFERRING`, пока есть что передавать, `EMPTY`, когда крип пуст, или статус `transferResource`.
+     */
+    transferAll(target: AnyCreep | Structure): ActionStatus {
+      const resource = this.getCarriedResources()[0];
+      if (!resource) return ActionStatus.EMPTY;
+      return this.transferResource(target, resource);
+    }
+
+    /**
+     * Забирает из соседней структуры до `amount` единиц ресурса — сколько есть и сколько влезет.
+     * @param target Структура с хранилищем или надгробие/руины.
+     * @param resource Тип ресурса (по умолчанию энергия).
+     * @param amount Верхняя граница; без значения — пока не заполнится крип.
+     * @returns `WITHDRAWING` при успехе, `FULL`, если места нет, `NOT_IN_RANGE`, если далеко,
+     * `NO_TARGET`, если ресурса в цели нет, иначе `ERROR`.
+     */
+    withdrawResource(
+      target: Structure | Tombstone | Ruin,
+      resource: ResourceConstant = RESOURCE_ENERGY,
+      amount?: number,
+    ): ActionStatus {
+      if (this.fullOf(resource)) return ActionStatus.FULL;
+      if (!this.isNear(target, 1)) return ActionStatus.NOT_IN_RANGE;
+
+      const available = (target as { store?: StoreDefinition }).store?.getUsedCapacity(resource) ?? 0;
+      if (available <= 0) return ActionStatus.NO_TARGET;
+
+      const free = this.creep.store.getFreeCapacity(resource) ?? 0;
+      const res = this.creep.withdraw(target, resource, Math.min(amount ?? free, available, free));
+      if (res === OK) return ActionStatus.WITHDRAWING;
+      return ActionStatus.ERROR;
+    }
+
+    /**
+     * Ищет, где взять ресурс: сначала сброшенный на землю, затем контейнеры, хранилище и терминал.
+     * @param resource Тип ресурса.
+     * @returns Ближайшая подходящая цель или `null`.
+     */
+    findResourceDropOrContainer(
+      resource: ResourceConstant,
+    ): Resource | StructureContainer | StructureStorage | StructureTerminal | null {
+      const room = this.creep.room;
+      if (!room) return null;
+
+      const dropped = room.find(FIND_DROPPED_RESOURCES, { filter: r => r.resourceType === resource }) as Resource[];
+      const drop = this.creep.pos.findClosestByRange(dropped) as Resource | null;
+      if (drop) return drop;
+
+      const holders = room.find(FIND_STRUCTURES, {
         filter: s =>
-          (s.structureType === STRUCTURE_CONTAINER || s.structureType === STRUCTURE_STORAGE) &&
-          (s.store.getFreeCapacity ? s.store.getFreeCapacity(RESOURCE_ENERGY) : 0) > 0,
-      }) as Structure[];
-      if (containers && containers.length > 0) {
-        const target = this.creep.pos.findClosestByRange(containers) as Structure;
-        if (target) return this.transferEnergyTo(target);
+          (s.structureType === STRUCTURE_CONTAINER ||
+            s.structureType === STRUCTURE_STORAGE ||
+            s.structureType === STRUCTURE_TERMINAL) &&
+          (s.store?.getUsedCapacity(resource) ?? 0) > 0,
+      }) as (StructureContainer | StructureStorage | StructureTerminal)[];
+      for (const type of [STRUCTURE_CONTAINER, STRUCTURE_STORAGE, STRUCTURE_TERMINAL]) {
+        const ofType = holders.filter(s => s.structureType === type);
+        const target = this.creep.pos.findClosestByRange(ofType);
+        if (target) return target as StructureContainer | StructureStorage | StructureTerminal;
       }
+      return null;
+    }
 
-      return ActionStatus.NO_TARGET;
+    /**
+     * Подбирает сброшенный ресурс или забирает его из контейнера/хранилища/терминала без перемещения.
+     * @param resource Тип ресурса (по умолчанию энергия).
+     * @param amount Сколько забрать из структуры; без значения — пока не заполнится крип.
+     * @returns `PICKING_UP`/`WITHDRAWING` при успехе, `FULL`, `NO_TARGET`, `NOT_IN_RANGE` или `ERROR`.
+     */
+    pickupOrWithdraw(resource: ResourceConstant = RESOURCE_ENERGY, amount?: number): ActionStatus {
+      if (this.fullOf(resource)) return ActionStatus.FULL;
+
+      const target = this.findResourceDropOrContainer(resource);
+      if (!target) return ActionStatus.NO_TARGET;
+      if (!this.isNear(target, 1)) return ActionStatus.NOT_IN_RANGE;
+
+      if ("resourceType" in target) {
+        const res = this.creep.pickup(target as Resource);
+        return res === OK ? ActionStatus.PICKING_UP : ActionStatus.ERROR;
+      }
+      return this.withdrawResource(target, resource, amount);
     }
 
-    private needsEnergyFill(s: any): boolean {
-      if (!s) return false;
-      const free =
-        (s.store && s.store.getFreeCapacity ? s.store.getFreeCapacity(RESOURCE_ENERGY) : s.energyCapacity - (s.energy ?? 0)) ??
-        0;
-      return free > 0;
+    /**
+     * Забирает ресурс по заявке предложения комнаты (см. `claimSupply`) без перемещения.
+     * При `NOT_IN_RANGE` подойдите к `getClaimTarget(creep)`.
+     * @param resource Тип ресурса (по умолчанию энергия).
+     * @returns `PICKING_UP`/`WITHDRAWING` при успехе, `FULL`, `NOT_IN_RANGE`, `NO_TARGET` или `ERROR`.
+     */
+    collectFromSupply(resource: ResourceConstant = RESOURCE_ENERGY): ActionStatus {
+      if (this.fullOf(resource)) return ActionStatus.FULL;
+
+      const task = claimSupply(this.creep, resource);
+      if (!task) return ActionStatus.NO_TARGET;
+      if (!this.isNear(task.target, 1)) return ActionStatus.NOT_IN_RANGE;
+
+      releaseClaim(this.creep);
+      if ("resourceType" in task.target) {
+        return this.creep.pickup(task.target) === OK ? ActionStatus.PICKING_UP : ActionStatus.ERROR;
+      }
+      return this.withdrawResource(task.target as Structure | Tombstone | Ruin, resource);
     }
   };
 }
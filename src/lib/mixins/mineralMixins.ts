@@ -0,0 +1,79 @@
+import { ActionStatus } from "../status";
+import { SimpleCreepBase, SimpleCreepConstructor } from "../simpleCreepBase";
+import { HarvestingCapabilities } from "./harvestingMixins";
+import { Chapter5Logistics } from "./logisticsMixins";
+import { travelTo } from "../movement";
+
+type MineralBase = SimpleCreepBase &
+  HarvestingCapabilities &
+  Pick<Chapter5Logistics, "transferAll" | "getCarriedResources">;
+
+export function MineralMixin<TBase extends SimpleCreepConstructor<MineralBase>>(Base: TBase) {
+  return class MineralMining extends Base {
+    constructor(...args: any[]) {
+      super(...args);
+    }
+
+    /**
+     * Куда сдавать добытые минералы: контейнер у минерала, затем хранилище, затем терминал.
+     * @param mineral Минерал комнаты (для поиска контейнера рядом с ним).
+     * @returns Структура со свободным местом или `null`.
+     */
+    findMineralDropOff(mineral?: Mineral | null): StructureContainer | StructureStorage | StructureTerminal | null {
+      const room = this.creep.room;
+      if (!room) return null;
+      const hasRoom = (s: { store: StoreDefinition }) => (s.store.getFreeCapacity() ?? 0) > 0;
+
+      if (mineral) {
+        const containers = room.find(FIND_STRUCTURES, {
+          filter: s => s.structureType === STRUCTURE_CONTAINER && s.pos.inRangeTo(mineral.pos, 1),
+        }) as StructureContainer[];
+        const container = containers.find(hasRoom);
+        if (container) return container;
+      }
+      if (room.storage && hasRoom(room.storage)) return room.storage;
+      if (room.terminal && hasRoom(room.terminal)) return room.terminal;
+      return null;
+    }
+
+    /**
+     * Сдаёт всё, что несёт крип, в контейнер у минерала, хранилище или терминал без перемещения.
+     * @returns Статус `transferAll`, `EMPTY`, если сдавать нечего, или `NO_TARGET`, если некуда.
+     */
+    storeMinerals(): ActionStatus {
+      if (this.getCarriedResources().length === 0) return ActionStatus.EMPTY;
+      const mineral = this.findClosestTarget("mineral") as Mineral | null;
+      const target = this.findMineralDropOff(mineral);
+      if (!target) return ActionStatus.NO_TARGET;
+      return this.transferAll(target);
+    }
+
+    /**
+     * Режим добычи минерала: копает, пока есть место, затем относит добычу и возвращается.
+     * Пока экстрактор перезаряжается, ждёт рядом; пока минерал восстанавливается, стоит на паузе.
+     * @returns `HARVESTING`, `COOLDOWN`, `DEPLETED`, статус сдачи или движения;
+     * `NO_TARGET`, если в комнате нет минерала или экстрактора.
+     */
+    mineMineral(): ActionStatus {
+      const mineral = this.findClosestTarget("mineral") as Mineral | null;
+      if (!mineral || !this.getExtractor(mineral)) return ActionStatus.NO_TARGET;
+
+      const carrying = this.getCarriedResources().length > 0;
+      const full = (this.creep.store.getFreeCapacity() ?? 0) === 0;
+      // A depleted mineral will not refill for a long time, so bring home what was already mined.
+      if (full || (carrying && mineral.mineralAmount === 0)) {
+        const target = this.findMineralDropOff(mineral);
+        if (!target) return ActionStatus.NO_TARGET;
+        const status = this.transferAll(target);
+        if (status !== ActionStatus.NOT_IN_RANGE) return status;
+        return travelTo(this.creep, target.pos, { range: 1 });
+      }
+
+      if (mineral.mineralAmount === 0) return ActionStatus.DEPLETED;
+      if (!this.isNear(mineral, 1)) return this.moveNear(mineral);
+      return this.harvest(mineral);
+    }
+  };
+}
+
+export type MineralMining = InstanceType<ReturnType<typeof MineralMixin>>;
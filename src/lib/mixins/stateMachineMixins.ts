@@ -0,0 +1,62 @@
+import { ActionStatus } from "../status";
+import { SimpleCreepBase, SimpleCreepConstructor } from "../simpleCreepBase";
+import { RoleAndMemory } from "../simpleCreepRoles";
+import { StateMachine, StoredState } from "../stateMachine";
+import type { SimpleCreep } from "../simpleCreep";
+
+export function StateMachineMixin<
+  TBase extends SimpleCreepConstructor<SimpleCreepBase & Pick<RoleAndMemory, "remember" | "recall">>,
+>(Base: TBase) {
+  return class StateMachines extends Base {
+    constructor(...args: any[]) {
+      super(...args);
+    }
+
+    private stateKey(machine: StateMachine<string>): string {
+      return `sm:${machine.name}`;
+    }
+
+    /**
+     * Возвращает текущее состояние крипа в машине.
+     * @param machine Машина состояний.
+     * @returns Имя состояния и тик входа в него или `undefined`, если машина ещё не запускалась.
+     */
+    getState<S extends string>(machine: StateMachine<S>): (StoredState & { state: S }) | undefined {
+      const stored = this.recall<StoredState>(this.stateKey(machine));
+      if (!stored || !(stored.state in machine.states)) return undefined;
+      return stored as StoredState & { state: S };
+    }
+
+    /**
+     * Переводит крипа в другое состояние, вызывая `exit` текущего и `enter` нового.
+     * @param machine Машина состояний.
+     * @param next Имя нового состояния.
+     */
+    setState<S extends string>(machine: StateMachine<S>, next: S): void {
+      const self = this as unknown as SimpleCreep;
+      const current = this.getState(machine);
+      if (current) machine.states[current.state].exit?.(self);
+      this.remember<StoredState>(this.stateKey(machine), { state: next, since: Game.time });
+      machine.states[next].enter?.(self);
+    }
+
+    /**
+     * Выполняет текущее состояние и делает переход, если его `ActionStatus` указан в `on`.
+     * Состояние хранится в памяти крипа и переживает глобальный перезапуск.
+     * @param machine Машина состояний.
+     * @returns Статус, который вернуло действие состояния.
+     */
+    runStateMachine<S extends string>(machine: StateMachine<S>): ActionStatus {
+      if (!this.getState(machine)) this.setState(machine, machine.initial);
+      const current = (this.getState(machine) as StoredState & { state: S }).state;
+      const state = machine.states[current];
+
+      const status = state.run(this as unknown as SimpleCreep);
+      const next = state.on?.[status];
+      if (next !== undefined && next !== current) this.setState(machine, next);
+      return status;
+    }
+  };
+}
+
+export type StateMachines = InstanceType<ReturnType<typeof StateMachineMixin>>;
@@ -0,0 +1,117 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert = require('node:assert');
+import { ActionStatus } from './status';
+import {
+  allowRoom,
+  avoidRoom,
+  deserializePath,
+  findRoomRoute,
+  getAvoidedRooms,
+  serializePath,
+  travelTo,
+  travelToRoom,
+} from './movement';
+import { createCreep, createPosition, createRoom, setupScreepsGlobals } from './__tests__/screeps-mock';
+
+describe('movement', () => {
+  beforeEach(() => setupScreepsGlobals());
+
+  test('serializePath round-trips steps across rooms', () => {
+    const path = [
+      { x: 1, y: 48, roomName: 'W1N1' },
+      { x: 0, y: 49, roomName: 'W1N1' },
+      { x: 49, y: 0, roomName: 'W2N1' },
+    ];
+    const restored = deserializePath(serializePath(path));
+    assert.strictEqual(
+      restored.map(p => `${p.x},${p.y},${p.roomName}`).join('|'),
+      path.map(p => `${p.x},${p.y},${p.roomName}`).join('|'),
+    );
+    assert.strictEqual(deserializePath('').length, 0);
+  });
+
+  test('travelTo reuses the cached path and repaths around creeps when stuck', () => {
+    const searches: Array<{ path: RoomPosition[] }> = [];
+    (PathFinder as any).search = () => {
+      const result = { path: [createPosition(1, 1), createPosition(2, 2), createPosition(3, 3)] };
+      searches.push(result);
+      return result;
+    };
+    const memory = {} as CreepMemory;
+    const target = createPosition(3, 3);
+    const at = (x: number, y: number) => createCreep({ memory, pos: createPosition(x, y) });
+
+    assert.strictEqual(travelTo(at(0, 0), target), ActionStatus.MOVING);
+    Game.time = 1;
+    assert.strictEqual(travelTo(at(1, 1), target), ActionStatus.MOVING);
+    assert.strictEqual(searches.length, 1);
+
+    Game.time = 2;
+    assert.strictEqual(travelTo(at(1, 1), target), ActionStatus.MOVING);
+    Game.time = 3;
+    assert.strictEqual(travelTo(at(1, 1), target), ActionStatus.STUCK);
+    assert.strictEqual(searches.length, 2);
+
+    Game.time = 4;
+    assert.strictEqual(travelTo(at(3, 3), target), ActionStatus.ALREADY_THERE);
+    assert.strictEqual((memory as any)._travel, undefined);
+  });
+
+  test('a cached path is rebuilt around a hostile tower that appeared after it was planned', () => {
+    const towers: unknown[] = [];
+    const room = createRoom({ find: ((type: FindConstant) => (type === FIND_HOSTILE_STRUCTURES ? towers : [])) as Room['find'] });
+    (Game as any).rooms = { W0N0: room };
+    const costs: number[] = [];
+    (PathFinder as any).search = (_from: RoomPosition, _goal: unknown, opts: { roomCallback: (name: string) => CostMatrix }) => {
+      costs.push(opts.roomCallback('W0N0').get(20, 20));
+      return { path: [createPosition(1, 1), createPosition(2, 2), createPosition(3, 3)] };
+    };
+    const memory = {} as CreepMemory;
+    const target = createPosition(3, 3);
+
+    travelTo(createCreep({ memory, room, pos: createPosition(0, 0) }), target);
+    towers.push({ id: 'tower', structureType: STRUCTURE_TOWER, pos: createPosition(20, 20) });
+    // Next tick: a new room object, now with the tower in it.
+    Game.time = 1;
+    (Game as any).rooms = { W0N0: { ...room } };
+    travelTo(createCreep({ memory, room, pos: createPosition(1, 1) }), target);
+    assert.strictEqual(costs.join(','), '0,40');
+  });
+
+  test('travelTo reports NO_PATH when the search finds nothing', () => {
+    (PathFinder as any).search = () => ({ path: [], incomplete: true });
+    const creep = createCreep({ memory: {} as CreepMemory, pos: createPosition(0, 0) });
+    assert.strictEqual(travelTo(creep, createPosition(9, 9)), ActionStatus.NO_PATH);
+  });
+
+  test('routes skip avoided rooms and travelToRoom stops once off the exit tile', () => {
+    const costs: Record<string, number> = {};
+    (Game as any).map = {
+      findRoute: (_from: string, to: string, opts: { routeCallback: (room: string) => number }) => {
+        costs['W2N1'] = opts.routeCallback('W2N1');
+        costs[to] = opts.routeCallback(to);
+        return [{ exit: 3, room: to }];
+      },
+    };
+
+    avoidRoom('W2N1');
+    avoidRoom('W3N1', 10);
+    assert.strictEqual(getAvoidedRooms().join(','), 'W2N1,W3N1');
+    assert.strictEqual(findRoomRoute('W1N1', 'W3N1')?.join(','), 'W1N1,W3N1');
+    assert.strictEqual(costs['W2N1'], Infinity);
+    assert.strictEqual(costs['W3N1'], 1);
+
+    Game.time = 10;
+    assert.strictEqual(getAvoidedRooms().join(','), 'W2N1');
+    allowRoom('W2N1');
+    assert.strictEqual(getAvoidedRooms().length, 0);
+
+    const memory = {} as CreepMemory;
+    const away = createCreep({ memory, pos: createPosition(10, 10, 'W1N1') });
+    assert.strictEqual(travelToRoom(away, 'W3N1'), ActionStatus.MOVING);
+    const onExit = createCreep({ memory, pos: createPosition(49, 20, 'W3N1') });
+    assert.strictEqual(travelToRoom(onExit, 'W3N1'), ActionStatus.MOVING);
+    const inside = createCreep({ memory, pos: createPosition(48, 20, 'W3N1') });
+    assert.strictEqual(travelToRoom(inside, 'W3N1'), ActionStatus.ALREADY_THERE);
+  });
+});
@@ -0,0 +1,236 @@
+import { ActionStatus } from "./status";
+import { registerMove } from "./traffic";
+import { getCostMatrix, getDangerSignature } from "./costMatrix";
+
+/** Клетка пути: координаты и комната. */
+export interface PathStep {
+  x: number;
+  y: number;
+  roomName: string;
+}
+
+export interface TravelOptions {
+  /** На какой дистанции от цели движение закончено (по умолчанию 0 — встать на клетку). */
+  range?: number;
+  /** Сколько тиков без движения считать застреванием (по умолчанию 2). */
+  stuckTicks?: number;
+}
+
+/** Состояние движения крипа в `memory._travel`. */
+interface TravelMemory {
+  /** Цель и дистанция, для которых построен путь. */
+  dest: string;
+  /** Оставшийся путь в формате `serializePath`. */
+  path: string;
+  /** Клетка крипа на тике, когда он последний раз шёл. */
+  last: string;
+  tick: number;
+  stuck: number;
+  /** `getDangerSignature` комнаты, в которой крип был, когда путь строился. */
+  danger?: string;
+}
+
+const DEFAULT_STUCK_TICKS = 2;
+// Coordinates become printable characters starting at "A", which leaves ":" and "|" free as separators.
+const COORD_OFFSET = 65;
+
+function tileKey(pos: PathStep): string {
+  return `${pos.x},${pos.y},${pos.roomName}`;
+}
+
+function sameTile(a: PathStep, b: PathStep): boolean {
+  return a.x === b.x && a.y === b.y && a.roomName === b.roomName;
+}
+
+/**
+ * Сжимает путь в строку: по два символа на клетку, клетки сгруппированы по комнатам (`W1N1:…|W2N1:…`).
+ * @param path Клетки пути по порядку.
+ * @returns Строка для хранения в памяти.
+ */
+export function serializePath(path: PathStep[]): string {
+  const segments: string[] = [];
+  let room = "";
+  let coords = "";
+  for (const step of path) {
+    if (step.roomName !== room) {
+      if (room) segments.push(`${room}:${coords}`);
+      room = step.roomName;
+      coords = "";
+    }
+    coords += String.fromCharCode(COORD_OFFSET + step.x, COORD_OFFSET + step.y);
+  }
+  if (room) segments.push(`${room}:${coords}`);
+  return segments.join("|");
+}
+
+/**
+ * Восстанавливает путь, сжатый `serializePath`.
+ * @param serialized Строка из памяти.
+ * @returns Клетки пути по порядку.
+ */
+export function deserializePath(serialized: string): PathStep[] {
+  const path: PathStep[] = [];
+  for (const segment of serialized ? serialized.split("|") : []) {
+    const [roomName = "", coords = ""] = segment.split(":");
+    for (let i = 0; i + 1 < coords.length; i += 2) {
+      path.push({ x: coords.charCodeAt(i) - COORD_OFFSET, y: coords.charCodeAt(i + 1) - COORD_OFFSET, roomName });
+    }
+  }
+  return path;
+}
+
+function getAvoidStore(): Record<string, number> {
+  if (!(Memory as any).__avoidRooms) (Memory as any).__avoidRooms = {};
+  return (Memory as any).__avoidRooms as Record<string, number>;
+}
+
+/**
+ * Помечает комнату как враждебную: маршруты и пути будут её обходить (кроме случая, когда она сама — цель).
+ * @param roomName Имя комнаты.
+ * @param ticks Сколько тиков обходить комнату; без значения — пока не вызван `allowRoom`.
+ */
+export function avoidRoom(roomName: string, ticks?: number): void {
+  getAvoidStore()[roomName] = ticks === undefined ? 0 : Game.time + ticks;
+}
+
+/**
+ * Снимает с комнаты пометку `avoidRoom`.
+ * @param roomName Имя комнаты.
+ */
+export function allowRoom(roomName: string): void {
+  delete getAvoidStore()[roomName];
+}
+
+/**
+ * Проверяет, обходят ли пути комнату. Истёкшие пометки удаляются.
+ * @param roomName Имя комнаты.
+ */
+export function isRoomAvoided(roomName: string): boolean {
+  const store = getAvoidStore();
+  const until = store[roomName];
+  if (until === undefined) return false;
+  if (until !== 0 && until <= Game.time) {
+    delete store[roomName];
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Список комнат, которые сейчас обходят пути.
+ * @returns Имена комнат.
+ */
+export function getAvoidedRooms(): string[] {
+  return Object.keys(getAvoidStore()).filter(isRoomAvoided);
+}
+
+/**
+ * Строит маршрут между комнатами через `Game.map.findRoute`, обходя комнаты из `avoidRoom`.
+ * @param from Комната старта.
+ * @param to Комната назначения.
+ * @returns Комнаты по порядку, включая `from` и `to`, или `null`, если маршрута нет.
+ */
+export function findRoomRoute(from: string, to: string): string[] | null {
+  if (from === to) return [from];
+  const route = Game.map.findRoute(from, to, {
+    routeCallback: roomName => (roomName !== to && isRoomAvoided(roomName) ? Infinity : 1),
+  });
+  if (route === ERR_NO_PATH) return null;
+  return [from, ...route.map(step => step.room)];
+}
+
+function findPath(creep: Creep, target: RoomPosition, range: number, avoidCreeps: boolean): PathStep[] {
+  // Across rooms the search is limited to the planned route, so it never wanders into avoided rooms.
+  const route = findRoomRoute(creep.pos.roomName, target.roomName);
+  if (!route) return [];
+  const result = PathFinder.search(
+    creep.pos,
+    { pos: target, range },
+    {
+      plainCost: 2,
+      swampCost: 10,
+      maxRooms: route.length,
+      roomCallback: roomName => (route.includes(roomName) ? getCostMatrix(roomName, { creeps: avoidCreeps }) : false),
+    },
+  );
+  return result.path;
+}
+
+/**
+ * Ведёт крипа в другую комнату по маршруту `findRoomRoute` и уводит с клетки выхода, чтобы его не выбросило обратно.
+ * @param creep Крип, который идёт.
+ * @param roomName Комната назначения.
+ * @returns `ALREADY_THERE`, если крип в комнате и не на её краю, иначе статус `travelTo`; `NO_PATH`, если маршрута нет.
+ */
+export function travelToRoom(creep: Creep, roomName: string): ActionStatus {
+  const { x, y } = creep.pos;
+  const onExit = x === 0 || y === 0 || x === 49 || y === 49;
+  if (creep.pos.roomName === roomName && !onExit) {
+    delete (creep.memory as unknown as { _travel?: TravelMemory })._travel;
+    return ActionStatus.ALREADY_THERE;
+  }
+  // Range 23 around the centre covers every tile except the border ring.
+  return travelTo(creep, new RoomPosition(25, 25, roomName), { range: 23 });
+}
+
+/**
+ * Ведёт крипа к цели по пути, сохранённому в памяти (`memory._travel`). Путь ищется по `getCostMatrix`
+ * (дороги, постройки, опасные зоны) заново, только если сменилась цель, крип сошёл с пути, в комнате
+ * появились или пропали вражеские башни и боевые крипы (`getDangerSignature`) или крип застрял —
+ * тогда другие крипы считаются препятствиями.
+ * @param creep Крип, который идёт.
+ * @param target Целевая клетка.
+ * @param options Дистанция до цели и порог застревания.
+ * @returns `ALREADY_THERE` на месте, `MOVING` в пути, `STUCK`, если крип застрял и путь перестроен,
+ * `NO_PATH`, если пути нет, `ERROR` при прочих ошибках.
+ */
+export function travelTo(creep: Creep, target: RoomPosition, options: TravelOptions = {}): ActionStatus {
+  const memory = creep.memory as unknown as { _travel?: TravelMemory };
+  const range = options.range ?? 0;
+  if (creep.pos.roomName === target.roomName && creep.pos.inRangeTo(target, range)) {
+    delete memory._travel;
+    return ActionStatus.ALREADY_THERE;
+  }
+
+  const dest = `${tileKey(target)}:${range}`;
+  const here = tileKey(creep.pos);
+  let travel = memory._travel;
+  if (!travel || travel.dest !== dest) {
+    travel = { dest, path: "", last: here, tick: Game.time, stuck: 0 };
+  } else if (travel.last !== here) {
+    travel.stuck = 0;
+  } else if (travel.tick === Game.time - 1 && !creep.fatigue) {
+    travel.stuck++;
+  }
+
+  let path = deserializePath(travel.path);
+  while (path[0] && sameTile(path[0], creep.pos)) path.shift();
+  const step = path[0];
+  const offPath =
+    !step ||
+    step.roomName !== creep.pos.roomName ||
+    Math.max(Math.abs(step.x - creep.pos.x), Math.abs(step.y - creep.pos.y)) > 1;
+  const stuck = travel.stuck >= (options.stuckTicks ?? DEFAULT_STUCK_TICKS);
+  const danger = getDangerSignature(creep.pos.roomName);
+  if (offPath || stuck || (travel.danger ?? "") !== danger) {
+    path = findPath(creep, target, range, stuck);
+    travel.stuck = 0;
+    if (danger) travel.danger = danger;
+    else delete travel.danger;
+  }
+
+  const next = path[0];
+  if (!next) {
+    delete memory._travel;
+    return ActionStatus.NO_PATH;
+  }
+  travel.path = serializePath(path);
+  travel.last = here;
+  travel.tick = Game.time;
+  memory._travel = travel;
+
+  const result = creep.move(creep.pos.getDirectionTo(next.x, next.y));
+  if (result !== OK && result !== ERR_TIRED) return ActionStatus.ERROR;
+  if (result === OK) registerMove(creep, next);
+  return stuck ? ActionStatus.STUCK : ActionStatus.MOVING;
+}
@@ -2,7 +2,7 @@ import { beforeEach, describe, test } from 'node:test';
 import assert = require('node:assert');
 import { Role } from './roles';
 import { PopulationManager } from './populationManager';
-import { createCreep, createRoom, createSpawn, setupScreepsGlobals } from './__tests__/screeps-mock';
+import { createCreep, createPosition, createRoom, createSpawn, setupScreepsGlobals } from './__tests__/screeps-mock';
 
 describe('PopulationManager', () => {
   beforeEach(() => setupScreepsGlobals());
@@ -53,6 +53,134 @@ describe('PopulationManager', () => {
     assert.strictEqual(summary[Role.Worker], 'CAPPED');
   });
 
+  test('getCreepCount scopes by home room', () => {
+    const room = createRoom({ name: 'W1N1' });
+    Game.creeps = {
+      a: createCreep({ room, memory: { role: Role.Harvester, home: 'W1N1' } as CreepMemory }),
+      b: createCreep({ room, memory: { role: Role.Harvester, home: 'W2N3' } as CreepMemory }),
+      c: createCreep({ room, memory: { role: Role.Harvester } }),
+    };
+    assert.strictEqual(PopulationManager.getCreepCount(Role.Harvester, 'W1N1'), 2);
+    assert.strictEqual(PopulationManager.getCreepCount(Role.Harvester, 'W2N3'), 1);
+    assert.strictEqual(PopulationManager.getCreepCount(Role.Harvester), 3);
+  });
+
+  test('maintainPopulation with room targets spawns on idle spawns of each room', () => {
+    const roomA = createRoom({ name: 'W1N1', energyAvailable: 300 });
+    const roomB = createRoom({ name: 'W2N3', energyAvailable: 300 });
+    const spawned: Array<{ spawn: string; name: string; home: string }> = [];
+    const spawnIn = (room: Room, label: string) =>
+      createSpawn({
+        room,
+        spawnCreep: (_body, name, opts) => {
+          spawned.push({ spawn: label, name, home: (opts?.memory as { home: string }).home });
+          return OK;
+        },
+      });
+    const busy = spawnIn(roomA, 'a1');
+    busy.spawning = { name: 'worker-7-1', remainingTime: 4 } as Spawning;
+    Game.spawns = { a1: busy, a2: spawnIn(roomA, 'a2'), b1: spawnIn(roomB, 'b1') };
+    Game.creeps = { h: createCreep({ room: roomB, memory: { role: Role.Harvester, home: 'W2N3' } as CreepMemory }) };
+
+    const summary = PopulationManager.maintainPopulation({
+      W1N1: { [Role.Harvester]: 1 },
+      W2N3: { [Role.Worker]: 1 },
+    });
+
+    assert.strictEqual(summary['W1N1']?.[Role.Harvester], 'SPAWNING');
+    assert.strictEqual(summary['W2N3']?.[Role.Worker], 'SPAWNING');
+    assert.strictEqual(spawned.length, 2);
+    assert.ok(spawned.some(s => s.spawn === 'a2'));
+    assert.ok(spawned.every(s => (s.spawn === 'b1' ? s.home === 'W2N3' : s.home === 'W1N1')));
+  });
+
+  test('canBuildCreep and getQueuedSpawns respect room scoping', () => {
+    const roomA = createRoom({ name: 'W1N1', energyAvailable: 300 });
+    const roomB = createRoom({ name: 'W2N3', energyAvailable: 300 });
+    Game.spawns = {
+      a: createSpawn({ room: roomA, spawning: { name: 'worker-1-1', remainingTime: 5 } as Spawning }),
+      b: createSpawn({ room: roomB }),
+    };
+    assert.strictEqual(PopulationManager.canBuildCreep(Role.Worker, 'W1N1'), false);
+    assert.strictEqual(PopulationManager.canBuildCreep(Role.Worker, 'W2N3'), true);
+    assert.strictEqual(PopulationManager.getQueuedSpawns('W1N1').length, 1);
+    assert.strictEqual(PopulationManager.getQueuedSpawns('W2N3').length, 0);
+  });
+
+  test('spawn queue lives in Memory, runs by priority and deduplicates names', () => {
+    const room = createRoom({ energyAvailable: 300, energyCapacityAvailable: 300 });
+    const spawnedRoles: string[] = [];
+    Game.spawns = {
+      s: createSpawn({
+        room,
+        spawnCreep: (_body, _name, opts) => {
+          spawnedRoles.push((opts?.memory as { role: string }).role);
+          return OK;
+        },
+      }),
+    };
+    Game.creeps = { h: createCreep({ room, memory: { role: Role.Harvester } }) };
+
+    assert.ok(PopulationManager.enqueueSpawn(Role.Soldier, { priority: 10, name: 'guard' }));
+    assert.ok(PopulationManager.enqueueSpawn(Role.Worker, { priority: 20 }));
+    assert.strictEqual(PopulationManager.enqueueSpawn(Role.Soldier, { name: 'guard' }), null);
+    assert.strictEqual((Memory as any).__pmQueue[room.name].length, 2);
+
+    const queued = PopulationManager.getQueuedSpawns();
+    assert.strictEqual(queued[0]?.role, Role.Worker);
+    assert.strictEqual(queued[0]?.status, 'queued');
+
+    PopulationManager.processSpawnQueue();
+    assert.strictEqual(spawnedRoles.join(','), Role.Worker);
+    assert.strictEqual(PopulationManager.getQueuedSpawns().length, 1);
+  });
+
+  test('queue waits for full capacity unless no harvesters are alive', () => {
+    const room = createRoom({ energyAvailable: 250, energyCapacityAvailable: 800 });
+    const bodies: BodyPartConstant[][] = [];
+    Game.spawns = {
+      s: createSpawn({
+        room,
+        spawnCreep: body => {
+          bodies.push(body);
+          return OK;
+        },
+      }),
+    };
+    Game.creeps = { h: createCreep({ room, memory: { role: Role.Harvester } }) };
+    assert.strictEqual(PopulationManager.maintainPopulation({ [Role.Worker]: 1 })[Role.Worker], 'QUEUED');
+    assert.strictEqual(bodies.length, 0);
+
+    // Without harvesters in the targets the queue does not invent one.
+    Game.creeps = {};
+    assert.ok(PopulationManager.isEmergency());
+    PopulationManager.maintainPopulation({ [Role.Worker]: 1 });
+    assert.strictEqual(bodies.length, 0);
+    assert.ok(PopulationManager.getQueuedSpawns().every(job => job.role === Role.Worker));
+
+    const summary = PopulationManager.maintainPopulation({ [Role.Worker]: 1, [Role.Harvester]: 1 });
+    assert.strictEqual(summary[Role.Harvester], 'SPAWNING');
+    assert.strictEqual(summary[Role.Worker], 'QUEUED');
+    assert.strictEqual(bodies[0]?.join(','), [WORK, CARRY, MOVE].join(','));
+  });
+
+  test('expiring creeps are replaced early and listed in the population report', () => {
+    const room = createRoom({ energyAvailable: 300 });
+    Game.spawns = { s: createSpawn({ room, pos: createPosition(10, 10) }) };
+    const body = [WORK, CARRY, MOVE].map(type => ({ type, hits: 100 })) as BodyPartDefinition[];
+    Game.creeps = {
+      old: createCreep({ name: 'old', room, body, ticksToLive: 11, pos: createPosition(13, 10), memory: { role: Role.Harvester } }),
+    };
+
+    assert.ok(PopulationManager.isExpiring(Game.creeps['old'] as Creep));
+    assert.strictEqual(PopulationManager.maintainPopulation({ [Role.Harvester]: 1 })[Role.Harvester], 'SPAWNING');
+    assert.strictEqual(PopulationManager.getPopulationReport()[Role.Harvester]?.expiring[0], 'old');
+
+    PopulationManager.setPrespawn(Role.Harvester, { enabled: false });
+    assert.strictEqual(PopulationManager.isExpiring(Game.creeps['old'] as Creep), false);
+    PopulationManager.setPrespawn(Role.Harvester, { enabled: true });
+  });
+
   test('getQueuedSpawns lists active spawns with inferred role', () => {
     const room = createRoom({ energyAvailable: 300 });
     Game.spawns = {
@@ -75,4 +203,17 @@ describe('PopulationManager', () => {
     PopulationManager.forEachCreepOfRole(Role.Harvester, () => seen++);
     assert.strictEqual(seen, 1);
   });
+
+  test('a creep that is still spawning is counted once in the population report', () => {
+    const room = createRoom({ energyAvailable: 300 });
+    Game.spawns = { s: createSpawn({ room, spawning: { name: 'fresh' } as Spawning }) };
+    Memory.creeps = { fresh: { role: Role.Worker } as CreepMemory };
+    Game.creeps = {
+      fresh: createCreep({ name: 'fresh', room, spawning: true, memory: Memory.creeps['fresh'] as CreepMemory }),
+      done: createCreep({ name: 'done', room, memory: { role: Role.Worker } }),
+    };
+
+    const row = PopulationManager.getPopulationReport()[Role.Worker];
+    assert.strictEqual(`${row?.alive} ${row?.spawning} ${row?.queued}`, '1 1 0');
+  });
 });
@@ -1,63 +1,95 @@
-import { Role } from "./roles";
+import { Role, RoleName } from "./roles";
+import { buildBody, getBodyCost, getBodyRecipe, getBodySpawnTime } from "./bodyRecipes";
+import { getDefaultTargets, getRoleDefinition } from "./roleRegistry";
+import { getInitialMemory } from "./memorySchema";
 import { SimpleCreep } from './simpleCreep';
+import { isModeTargets, ModeTargets, recordEnergy, resolveModeTarget } from "./economy";
 
 type SpawnBuildResult = "SPAWNING" | "NOT_ENOUGH_ENERGY" | "SPAWN_BUSY" | "ERROR";
-type MaintainStatus = "OK" | "SPAWNING" | "CAPPED" | "BLOCKED";
+type MaintainStatus = "OK" | "SPAWNING" | "QUEUED" | "CAPPED" | "BLOCKED";
 
 export interface SpawnJob {
-  role: Role;
+  role: RoleName;
   name: string;
   remainingTime?: number;
   spawnName?: string;
+  roomName?: string | undefined;
+  status?: "spawning" | "queued";
+  priority?: number;
+  /** Дополнительная память из запроса (только для ждущих в очереди). */
+  memory?: Record<string, unknown>;
 }
 
+/** Запрос на спаун, который ждёт своей очереди в `Memory.__pmQueue`. */
+export interface SpawnRequest {
+  name: string;
+  role: RoleName;
+  roomName: string;
+  priority: number;
+  requestedAt: number;
+  memory?: Record<string, unknown>;
+  /** Запрос создан `maintainPopulation` и может быть отменён при снижении цели. */
+  auto?: boolean;
+}
+
+export interface EnqueueOptions {
+  roomName?: string;
+  priority?: number;
+  name?: string;
+  memory?: Record<string, unknown>;
+}
+
+/** Настройки заблаговременной замены крипов роли. */
+export interface PrespawnConfig {
+  /** Ставить ли замену в очередь заранее (по умолчанию `true`). */
+  enabled?: boolean;
+  /** Время пути от спауна до места работы; без него оценивается по расстоянию до домашнего спауна. */
+  travelTime?: number;
+}
+
+export interface RolePopulationReport {
+  /** Вышедшие из спауна крипы; те, что ещё спаунятся, считаются только в `spawning`. */
+  alive: number;
+  /** Имена крипов, которым пора заказать замену (см. `isExpiring`); заказывает её `maintainPopulation`, если роль есть в целях. */
+  expiring: string[];
+  spawning: number;
+  queued: number;
+}
+
+/** Целевое количество крипов по ролям: число или значения по режимам трат комнаты (`{ save: 1, surplus: 3 }`). */
+export type RoleTargets = Partial<Record<RoleName, number | ModeTargets>>;
+
+/** Целевое количество крипов по ролям для каждой комнаты (ключ — имя комнаты). */
+export type RoomTargets = Record<string, RoleTargets>;
+
 class PopulationManagerClass {
-  // Deterministic body selection per role based on available energy.
-  private chooseBody(role: Role, availableEnergy: number): BodyPartConstant[] {
-    const body: BodyPartConstant[] = [];
-
-    const pushParts = (...parts: BodyPartConstant[]) => parts.forEach(p => body.push(p));
-
-    const costOf = (parts: BodyPartConstant[]) => parts.reduce((s, p) => s + (BODYPART_COST[p] || 0), 0);
-
-    // Minimal bodies
-    if (role === Role.Harvester) {
-      const base = [WORK, CARRY, MOVE];
-      if (costOf(base) > availableEnergy) return [];
-      pushParts(...base);
-      // Add pairs of WORK+MOVE while we have capacity (simple scaling)
-      while (body.length + 2 <= 50 && costOf([WORK, MOVE]) + costOf(body) <= availableEnergy) {
-        pushParts(WORK, MOVE);
-      }
-      // Add extra CARRY if energy allows
-      while (body.length + 1 <= 50 && costOf([CARRY]) + costOf(body) <= availableEnergy) pushParts(CARRY);
-      return body;
-    }
-
-    if (role === Role.Worker) {
-      const base = [WORK, CARRY, MOVE];
-      if (costOf(base) > availableEnergy) return [];
-      pushParts(...base);
-      // Try to balance WORK and CARRY
-      while (body.length + 3 <= 50 && costOf([WORK, CARRY, MOVE]) + costOf(body) <= availableEnergy) {
-        pushParts(WORK, CARRY, MOVE);
-      }
-      return body;
-    }
+  // Game objects are rebuilt every tick, so weak maps keyed by them reset on their own.
+  // `energyAvailable` does not drop until next tick, so spending from spawns started this tick is tracked here.
+  private energySpent = new WeakMap<Room, number>();
+  private startedThisTick = new WeakSet<StructureSpawn>();
+  // Names are plain strings, so they carry the tick they were started on.
+  private startedNames: { tick: number; names: Set<string> } = { tick: -1, names: new Set() };
 
-    // Soldier
-    if (role === Role.Soldier) {
-      const base = [TOUGH, ATTACK, MOVE];
-      if (costOf(base) > availableEnergy) return [];
-      pushParts(...base);
-      // Add ATTACK+MOVE pairs
-      while (body.length + 2 <= 50 && costOf([ATTACK, MOVE]) + costOf(body) <= availableEnergy) {
-        pushParts(ATTACK, MOVE);
-      }
-      return body;
-    }
+  private prespawnConfigs: Partial<Record<RoleName, PrespawnConfig>> = {};
+
+  private rolePriorities: Partial<Record<RoleName, number>> = {
+    [Role.Harvester]: 100,
+    [Role.Worker]: 50,
+    [Role.Soldier]: 30,
+  };
+
+  // Deterministic body selection per role: the role's registered recipe scaled to the energy budget.
+  private chooseBody(role: RoleName, availableEnergy: number): BodyPartConstant[] {
+    const recipe = getBodyRecipe(role);
+    if (!recipe) return [];
+    return buildBody(recipe, availableEnergy);
+  }
 
-    return [];
+  // The cheapest body that can still work: just the recipe base.
+  private chooseBootstrapBody(role: RoleName, availableEnergy: number): BodyPartConstant[] {
+    const recipe = getBodyRecipe(role);
+    if (!recipe) return [];
+    return buildBody({ ...recipe, maxRepeats: 0, fill: [] }, availableEnergy);
   }
 
   private getPrimarySpawn(): StructureSpawn | undefined {
@@ -66,105 +98,483 @@ class PopulationManagerClass {
     return Game.spawns[names[0] as string];
   }
 
+  // Falls back to the primary spawn's room when the caller does not name a room.
+  private resolveRoomName(roomName?: string): string | undefined {
+    if (roomName) return roomName;
+    return this.getPrimarySpawn()?.room?.name;
+  }
+
+  private getSpawnsInRoom(roomName: string): Array<[string, StructureSpawn]> {
+    const spawns: Array<[string, StructureSpawn]> = [];
+    for (const sName in Game.spawns) {
+      const sp = Game.spawns[sName];
+      if (!sp || sp.room?.name !== roomName) continue;
+      spawns.push([sName, sp]);
+    }
+    return spawns;
+  }
+
+  private getIdleSpawn(roomName: string): StructureSpawn | undefined {
+    const idle = this.getSpawnsInRoom(roomName).find(([, sp]) => !sp.spawning && !this.startedThisTick.has(sp));
+    return idle?.[1];
+  }
+
+  private getRoomEnergy(room: Room): number {
+    return (room.energyAvailable ?? 0) - (this.energySpent.get(room) ?? 0);
+  }
+
+  private getRoomCapacity(room: Room): number {
+    return room.energyCapacityAvailable || room.energyAvailable || 0;
+  }
+
+  private recordSpawnStart(spawn: StructureSpawn, body: BodyPartConstant[]): void {
+    this.energySpent.set(spawn.room, (this.energySpent.get(spawn.room) ?? 0) + getBodyCost(body));
+    this.startedThisTick.add(spawn);
+    recordEnergy(spawn.room.name, "spawn", getBodyCost(body));
+  }
+
+  private nextCreepName(role: RoleName): string {
+    // Ensure a stable unique counter in Memory
+    if (!(Memory as any).__pmCounter) (Memory as any).__pmCounter = 0;
+    (Memory as any).__pmCounter = ((Memory as any).__pmCounter as number) + 1;
+    return `${role}-${(Memory as any).__pmCounter}-${Game.time}`;
+  }
+
+  private spawnOn(
+    spawn: StructureSpawn,
+    role: RoleName,
+    body: BodyPartConstant[],
+    name: string,
+    homeRoom: string,
+    extraMemory?: Record<string, unknown>,
+  ): SpawnBuildResult {
+    const memory = { ...getInitialMemory(role), ...(extraMemory ?? {}), role, home: homeRoom };
+    const res = spawn.spawnCreep(body, name, { memory: memory as any });
+    if (res === OK) {
+      this.recordSpawnStart(spawn, body);
+      if (this.startedNames.tick !== Game.time) this.startedNames = { tick: Game.time, names: new Set() };
+      this.startedNames.names.add(name);
+      return "SPAWNING";
+    }
+    if (res === ERR_NOT_ENOUGH_ENERGY) return "NOT_ENOUGH_ENERGY";
+    if (res === ERR_BUSY || res === ERR_NAME_EXISTS) return "SPAWN_BUSY";
+    return "ERROR";
+  }
+
+  private getQueueStore(): Record<string, SpawnRequest[]> {
+    if (!(Memory as any).__pmQueue) (Memory as any).__pmQueue = {};
+    return (Memory as any).__pmQueue as Record<string, SpawnRequest[]>;
+  }
+
+  private getRoomQueue(roomName: string): SpawnRequest[] {
+    const store = this.getQueueStore();
+    if (!store[roomName]) store[roomName] = [];
+    return store[roomName] as SpawnRequest[];
+  }
+
+  // Highest priority first; equal priorities keep request order.
+  private sortQueue(queue: SpawnRequest[]): SpawnRequest[] {
+    return queue.slice().sort((a, b) => b.priority - a.priority || a.requestedAt - b.requestedAt);
+  }
+
+  private removeFromQueue(roomName: string, name: string): void {
+    const store = this.getQueueStore();
+    store[roomName] = this.getRoomQueue(roomName).filter(r => r.name !== name);
+  }
+
+  /**
+   * Определяет домашнюю комнату крипа: `memory.home`, а если его нет — текущую комнату.
+   * @param creep Крип для проверки.
+   * @returns Имя домашней комнаты или `undefined`, если определить нельзя.
+   */
+  getHomeRoom(creep: Creep): string | undefined {
+    const home = (creep.memory as any)?.home as string | undefined;
+    return home ?? creep.room?.name;
+  }
+
   /**
-   * Проверяет, можно ли сейчас создать крипа указанной роли на основном спауне.
-   * @returns `true`, если спаун свободен и энергии хватает на минимальное тело.
+   * Проверяет, что крип ещё создаётся: его спаунит один из спаунов или спаун начат в этом тике.
+   * Память такого крипа уже записана, а в `Game.creeps` его ещё нет.
+   * @param name Имя крипа.
+   * @returns `true`, если крип спаунится.
    */
-  canBuildCreep(role: Role): boolean {
-    const spawn = this.getPrimarySpawn();
+  isSpawning(name: string): boolean {
+    if (this.startedNames.tick === Game.time && this.startedNames.names.has(name)) return true;
+    return Object.keys(Game.spawns ?? {}).some(sName => Game.spawns[sName]?.spawning?.name === name);
+  }
+
+  /**
+   * Проверяет, можно ли сейчас создать крипа указанной роли в комнате.
+   * @param role Роль будущего крипа.
+   * @param roomName Комната со спаунами; по умолчанию комната основного спауна.
+   * @returns `true`, если в комнате есть свободный спаун и энергии хватает на минимальное тело.
+   */
+  canBuildCreep(role: RoleName, roomName?: string): boolean {
+    const targetRoom = this.resolveRoomName(roomName);
+    if (!targetRoom) return false;
+    const spawn = this.getIdleSpawn(targetRoom);
     if (!spawn) return false;
-    if (spawn.spawning) return false;
     const room = spawn.room;
     if (!room) return false;
-    const available = room.energyAvailable ?? 0;
-    const body = this.chooseBody(role, available);
+    const body = this.chooseBody(role, this.getRoomEnergy(room));
     return body.length > 0;
   }
 
   /**
-   * Пытается начать создание крипа указанной роли.
+   * Сразу пытается начать создание крипа указанной роли на первом свободном спауне комнаты, минуя очередь.
+   * @param role Роль будущего крипа.
+   * @param roomName Комната со спаунами; по умолчанию комната основного спауна.
    * @returns Результат, отражающий старт, блокировку или ошибку спауна.
    */
-  buildCreep(role: Role): SpawnBuildResult {
-    const spawn = this.getPrimarySpawn();
-    if (!spawn) return "ERROR";
-    if (spawn.spawning) return "SPAWN_BUSY";
+  buildCreep(role: RoleName, roomName?: string): SpawnBuildResult {
+    const targetRoom = this.resolveRoomName(roomName);
+    if (!targetRoom) return "ERROR";
+    if (this.getSpawnsInRoom(targetRoom).length === 0) return "ERROR";
+    const spawn = this.getIdleSpawn(targetRoom);
+    if (!spawn) return "SPAWN_BUSY";
     const room = spawn.room;
     if (!room) return "ERROR";
-    const available = room.energyAvailable ?? 0;
-    const body = this.chooseBody(role, available);
+    const body = this.chooseBody(role, this.getRoomEnergy(room));
     if (body.length === 0) return "NOT_ENOUGH_ENERGY";
-
-    // Ensure a stable unique counter in Memory
-    if (!(Memory as any).__pmCounter) (Memory as any).__pmCounter = 0;
-    (Memory as any).__pmCounter = ((Memory as any).__pmCounter as number) + 1;
-    const name = `${role}-${(Memory as any).__pmCounter}-${Game.time}`;
-
-    const res = spawn.spawnCreep(body, name, { memory: { role } as any });
-    if (res === OK) return "SPAWNING";
-    if (res === ERR_NOT_ENOUGH_ENERGY) return "NOT_ENOUGH_ENERGY";
-    if (res === ERR_BUSY || res === ERR_NAME_EXISTS) return "SPAWN_BUSY";
-    return "ERROR";
+    return this.spawnOn(spawn, role, body, this.nextCreepName(role), targetRoom);
   }
 
   /**
    * Подсчитывает активных крипов с указанной ролью.
+   * @param role Роль для подсчёта.
+   * @param roomName Если задано — учитываются только крипы с этой домашней комнатой.
+   * @param excludeExpiring Не считать крипов, которым пора заказать замену.
    * @returns Количество крипов с заданной ролью.
    */
-  getCreepCount(role: Role): number {
+  getCreepCount(role: RoleName, roomName?: string, excludeExpiring = false): number {
     let count = 0;
     for (const n in Game.creeps) {
       const c = Game.creeps[n];
       if (!c) continue;
-      const memRole = (c.memory && (c.memory as any).role) as Role | undefined;
-      if (memRole === role) count += 1;
+      const memRole = (c.memory && (c.memory as any).role) as RoleName | undefined;
+      if (memRole !== role) continue;
+      if (roomName && this.getHomeRoom(c) !== roomName) continue;
+      if (excludeExpiring && this.isExpiring(c)) continue;
+      count += 1;
     }
     return count;
   }
 
   /**
-   * Обеспечивает минимальное количество крипов роли, создавая новых при нехватке.
-   * @returns Статус: достигнут лимит, идёт спаун или создание заблокировано.
+   * Настраивает заблаговременную замену крипов роли.
+   * @param role Роль для настройки.
+   * @param config `enabled` включает/выключает замену, `travelTime` задаёт время пути до места работы.
+   */
+  setPrespawn(role: RoleName, config: PrespawnConfig): void {
+    this.prespawnConfigs[role] = { ...this.prespawnConfigs[role], ...config };
+  }
+
+  /**
+   * Сколько тиков нужно, чтобы замена крипа родилась и дошла до его места.
+   * @param creep Крип, для которого считается запас времени.
+   * @returns Время спауна тела плюс время пути.
    */
-  maintainCreepsAtRole(role: Role, targetCount: number): MaintainStatus {
-    const current = this.getCreepCount(role);
-    if (current >= targetCount) return "CAPPED";
-    if (!this.canBuildCreep(role)) return "BLOCKED";
-    const res = this.buildCreep(role);
-    if (res === "SPAWNING") return "SPAWNING";
-    if (res === "NOT_ENOUGH_ENERGY") return "BLOCKED";
-    return res === "SPAWN_BUSY" ? "BLOCKED" : "OK";
+  getReplacementLeadTime(creep: Creep): number {
+    const role = (creep.memory as any)?.role as RoleName | undefined;
+    const config = (role && this.prespawnConfigs[role]) || {};
+    const spawnTime = getBodySpawnTime((creep.body ?? []).map(part => part.type));
+    return spawnTime + (config.travelTime ?? this.estimateTravelTime(creep));
+  }
+
+  // Range to the nearest home spawn; one room width per room when the creep works elsewhere.
+  private estimateTravelTime(creep: Creep): number {
+    const home = this.getHomeRoom(creep);
+    if (!home || !creep.pos) return 0;
+    if (creep.pos.roomName !== home) {
+      const rooms = Game.map ? Game.map.getRoomLinearDistance(home, creep.pos.roomName) : 1;
+      return rooms * 50;
+    }
+    const ranges = this.getSpawnsInRoom(home).map(([, sp]) => creep.pos.getRangeTo(sp));
+    return ranges.length > 0 ? Math.min(...ranges) : 0;
+  }
+
+  /**
+   * Проверяет, что крипу пора заказать замену: `ticksToLive` меньше времени спауна тела плюс дороги.
+   * @param creep Крип для проверки.
+   * @returns `true`, если крип скоро умрёт и замена для его роли включена.
+   */
+  isExpiring(creep: Creep): boolean {
+    if (creep.spawning || typeof creep.ticksToLive !== "number") return false;
+    const role = (creep.memory as any)?.role as RoleName | undefined;
+    if (role && this.prespawnConfigs[role]?.enabled === false) return false;
+    return creep.ticksToLive < this.getReplacementLeadTime(creep);
   }
 
   /**
-   * Поддерживает численность нескольких ролей за один проход.
-   * @param targets Отображение роль → требуемое количество.
-   * @returns Отображение роль → статус поддержки.
+   * Отчёт о численности ролей: живые, уходящие на замену, спаунящиеся и ждущие в очереди.
+   * Группы не пересекаются (кроме `expiring` — части `alive`), так что их можно складывать.
+   * @param roomName Если задано — только крипы и спауны этой домашней комнаты.
+   * @returns Отчёт по каждой роли, у которой есть крипы или запросы.
    */
-  maintainPopulation(targets: Partial<Record<Role, number>>): Partial<Record<Role, MaintainStatus>> {
-    const summary: Partial<Record<Role, MaintainStatus>> = {};
+  getPopulationReport(roomName?: string): Partial<Record<RoleName, RolePopulationReport>> {
+    const report: Partial<Record<RoleName, RolePopulationReport>> = {};
+    const entry = (role: RoleName) => (report[role] ??= { alive: 0, expiring: [], spawning: 0, queued: 0 });
+
+    for (const n in Game.creeps) {
+      const c = Game.creeps[n];
+      if (!c || c.spawning) continue;
+      const role = (c.memory as any)?.role as RoleName | undefined;
+      if (!role) continue;
+      if (roomName && this.getHomeRoom(c) !== roomName) continue;
+      const row = entry(role);
+      row.alive += 1;
+      if (this.isExpiring(c)) row.expiring.push(c.name);
+    }
+    for (const job of this.getQueuedSpawns(roomName)) {
+      const row = entry(job.role);
+      if (job.status === "spawning") row.spawning += 1;
+      else row.queued += 1;
+    }
+    return report;
+  }
+
+  /**
+   * Меняет приоритет, с которым `maintainPopulation` ставит роль в очередь спауна.
+   * @param role Роль для настройки.
+   * @param priority Чем больше число, тем раньше спаун.
+   */
+  setSpawnPriority(role: RoleName, priority: number): void {
+    this.rolePriorities[role] = priority;
+  }
+
+  /**
+   * Возвращает приоритет спауна роли: заданный через `setSpawnPriority`, затем из `registerRole`.
+   * @param role Роль для проверки.
+   * @returns Число приоритета (больше — раньше).
+   */
+  getSpawnPriority(role: RoleName): number {
+    return this.rolePriorities[role] ?? getRoleDefinition(role)?.priority ?? 0;
+  }
+
+  /**
+   * Добавляет запрос на спаун в очередь комнаты, которая хранится в `Memory`.
+   * @param role Роль будущего крипа.
+   * @param options Комната, приоритет, имя и дополнительная память крипа.
+   * @returns Созданный запрос или `null`, если комната неизвестна либо крип с таким именем уже есть или ждёт в очереди.
+   */
+  enqueueSpawn(role: RoleName, options: EnqueueOptions = {}): SpawnRequest | null {
+    const roomName = this.resolveRoomName(options.roomName);
+    if (!roomName) return null;
+    if (options.name && (Game.creeps[options.name] || this.findQueued(options.name))) return null;
+
+    const request: SpawnRequest = {
+      name: options.name ?? this.nextCreepName(role),
+      role,
+      roomName,
+      priority: options.priority ?? this.getSpawnPriority(role),
+      requestedAt: Game.time,
+    };
+    if (options.memory) request.memory = options.memory;
+    this.getRoomQueue(roomName).push(request);
+    return request;
+  }
+
+  /**
+   * Удаляет запрос из очереди спауна.
+   * @param name Имя крипа из запроса.
+   * @returns `true`, если запрос был найден и удалён.
+   */
+  cancelSpawn(name: string): boolean {
+    const found = this.findQueued(name);
+    if (!found) return false;
+    this.removeFromQueue(found.roomName, name);
+    return true;
+  }
+
+  private findQueued(name: string): SpawnRequest | undefined {
+    const store = this.getQueueStore();
+    for (const roomName of Object.keys(store)) {
+      const match = (store[roomName] ?? []).find(r => r.name === name);
+      if (match) return match;
+    }
+    return undefined;
+  }
+
+  /**
+   * Проверяет аварийный режим: в комнате нет ни одного живого или создаваемого добытчика.
+   * @param roomName Домашняя комната; по умолчанию комната основного спауна.
+   * @returns `true`, если комнате нужен аварийный добытчик.
+   */
+  isEmergency(roomName?: string): boolean {
+    const targetRoom = this.resolveRoomName(roomName);
+    if (!targetRoom) return false;
+    if (this.getCreepCount(Role.Harvester, targetRoom) > 0) return false;
+    return !this.getQueuedSpawns(targetRoom).some(job => job.status === "spawning" && job.role === Role.Harvester);
+  }
+
+  /**
+   * Запускает запросы из очереди комнаты на свободных спаунах в порядке приоритета.
+   * Тело подбирается под `energyCapacityAvailable`, и очередь ждёт, пока энергии хватит.
+   * В аварийном режиме запрос добытчика идёт первым и получает самое дешёвое тело (базу рецепта) из `energyAvailable`.
+   * Сама очередь добытчика не заказывает: его ставит `maintainPopulation`, если он есть в целях.
+   * @param roomName Комната со спаунами; по умолчанию комната основного спауна.
+   * @returns Запросы, по которым спаун начался в этом тике.
+   */
+  processSpawnQueue(roomName?: string): SpawnRequest[] {
+    const targetRoom = this.resolveRoomName(roomName);
+    if (!targetRoom) return [];
+
+    const emergency = this.isEmergency(targetRoom);
+    let pending = this.sortQueue(this.getRoomQueue(targetRoom));
+    if (emergency) {
+      pending = pending.filter(r => r.role === Role.Harvester).concat(pending.filter(r => r.role !== Role.Harvester));
+    }
+
+    const started: SpawnRequest[] = [];
+    for (const request of pending) {
+      const spawn = this.getIdleSpawn(targetRoom);
+      if (!spawn) break;
+      const room = spawn.room;
+      const available = this.getRoomEnergy(room);
+      const bootstrap = emergency && request.role === Role.Harvester && started.length === 0;
+      const body = bootstrap
+        ? this.chooseBootstrapBody(request.role, available)
+        : this.chooseBody(request.role, this.getRoomCapacity(room));
+      // Wait for energy instead of letting lower priorities jump ahead.
+      if (body.length === 0 || getBodyCost(body) > available) break;
+
+      const res = this.spawnOn(spawn, request.role, body, request.name, targetRoom, request.memory);
+      if (res === "SPAWNING") {
+        this.removeFromQueue(targetRoom, request.name);
+        started.push(request);
+        continue;
+      }
+      if (res === "SPAWN_BUSY" && Game.creeps[request.name]) {
+        this.removeFromQueue(targetRoom, request.name);
+        continue;
+      }
+      break;
+    }
+    return started;
+  }
+
+  // Keeps exactly `missing` auto-generated requests for the role, dropping the newest extras.
+  private syncAutoRequests(role: RoleName, roomName: string, missing: number): void {
+    const keep = Math.max(missing, 0);
+    const auto = this.getRoomQueue(roomName).filter(r => r.auto && r.role === role);
+    for (let i = auto.length; i < keep; i++) this.enqueueAuto(role, roomName);
+    for (const r of auto.slice(keep)) this.removeFromQueue(roomName, r.name);
+  }
+
+  private enqueueAuto(role: RoleName, roomName: string): void {
+    const request = this.enqueueSpawn(role, { roomName });
+    if (request) request.auto = true;
+  }
+
+  /**
+   * Обеспечивает минимальное количество крипов роли: ставит недостающих в очередь и обрабатывает её.
+   * @param role Роль для поддержки.
+   * @param targetCount Требуемое количество крипов.
+   * @param roomName Домашняя комната; без неё считаются все крипы, а спаун идёт в комнате основного спауна.
+   * @returns Статус: достигнут лимит, идёт спаун, крип ждёт в очереди или создание заблокировано.
+   */
+  maintainCreepsAtRole(role: RoleName, targetCount: number, roomName?: string): MaintainStatus {
+    return this.maintainRoles({ [role]: targetCount }, roomName)[role] ?? "BLOCKED";
+  }
+
+  /**
+   * Поддерживает численность нескольких ролей за один проход через очередь спауна.
+   * Принимает либо цели для основной комнаты (`{ harvester: 2 }`),
+   * либо цели по комнатам (`{ W1N1: { harvester: 2 }, W2N3: { worker: 1 } }`).
+   * Без аргументов берёт численность, заданную в `registerRole`.
+   * @param targets Отображение роль → количество или комната → (роль → количество).
+   * @returns Статусы по ролям (или по комнатам и ролям для целей по комнатам).
+   */
+  maintainPopulation(targets?: RoleTargets): Partial<Record<RoleName, MaintainStatus>>;
+  maintainPopulation(targets: RoomTargets): Record<string, Partial<Record<RoleName, MaintainStatus>>>;
+  maintainPopulation(
+    targets: RoleTargets | RoomTargets = getDefaultTargets(),
+  ): Partial<Record<RoleName, MaintainStatus>> | Record<string, Partial<Record<RoleName, MaintainStatus>>> {
+    if (!this.isRoomTargets(targets)) return this.maintainRoles(targets);
+
+    const summary: Record<string, Partial<Record<RoleName, MaintainStatus>>> = {};
+    for (const roomName of Object.keys(targets)) {
+      const roomTargets = targets[roomName];
+      if (!roomTargets) continue;
+      summary[roomName] = this.maintainRoles(roomTargets, roomName);
+    }
+    return summary;
+  }
+
+  private isRoomTargets(targets: RoleTargets | RoomTargets): targets is RoomTargets {
+    return Object.keys(targets).some(key => {
+      const value = (targets as Record<string, unknown>)[key];
+      return typeof value === "object" && value !== null && !isModeTargets(value);
+    });
+  }
+
+  private maintainRoles(targets: RoleTargets, roomName?: string): Partial<Record<RoleName, MaintainStatus>> {
+    const summary: Partial<Record<RoleName, MaintainStatus>> = {};
+    const queueRoom = this.resolveRoomName(roomName);
+    if (!queueRoom) {
+      for (const rKey of Object.keys(targets)) summary[rKey as RoleName] = "BLOCKED";
+      return summary;
+    }
+
+    const missingByRole: Partial<Record<RoleName, number>> = {};
     for (const rKey of Object.keys(targets)) {
-      const role = rKey as Role;
-      const target = (targets as any)[role] as number | undefined;
-      if (typeof target !== "number") continue;
-      summary[role] = this.maintainCreepsAtRole(role, target);
+      const role = rKey as RoleName;
+      const value = targets[role];
+      if (value === undefined) continue;
+      const target = resolveModeTarget(value, queueRoom);
+      const missing = target - this.getCreepCount(role, roomName, true);
+      missingByRole[role] = missing;
+      this.syncAutoRequests(role, queueRoom, missing);
+    }
+
+    const started = this.processSpawnQueue(queueRoom);
+    for (const rKey of Object.keys(missingByRole)) {
+      const role = rKey as RoleName;
+      if ((missingByRole[role] ?? 0) <= 0) summary[role] = "CAPPED";
+      else if (started.some(r => r.role === role)) summary[role] = "SPAWNING";
+      else summary[role] = "QUEUED";
     }
     return summary;
   }
 
   /**
-   * Сообщает о текущих заданиях спауна и оставшемся времени.
-   * @returns Список заданий спауна с ролью, именем и оставшимся временем.
+   * Сообщает о текущих заданиях спауна и запросах, ждущих в очереди.
+   * @param roomName Если задано — только спауны и очередь этой комнаты.
+   * @returns Сначала идущие спауны, затем очередь по убыванию приоритета.
    */
-  getQueuedSpawns(): SpawnJob[] {
+  getQueuedSpawns(roomName?: string): SpawnJob[] {
     const jobs: SpawnJob[] = [];
     for (const sName in Game.spawns) {
       const sp = Game.spawns[sName];
       if (!sp) continue;
+      if (roomName && sp.room?.name !== roomName) continue;
       if (sp.spawning) {
-        const memEntry = (Memory as any)[sp.spawning.name];
-        const inferredRole = (memEntry && (memEntry.role as Role)) || (sp.spawning.name.split("-")[0] as Role);
-        jobs.push({ role: inferredRole, name: sp.spawning.name, remainingTime: (sp.spawning as any).remainingTime, spawnName: sName });
+        const memEntry = Memory.creeps?.[sp.spawning.name] as { role?: RoleName } | undefined;
+        const inferredRole = (memEntry && memEntry.role) || (sp.spawning.name.split("-")[0] as RoleName);
+        jobs.push({
+          role: inferredRole,
+          name: sp.spawning.name,
+          remainingTime: (sp.spawning as any).remainingTime,
+          spawnName: sName,
+          roomName: sp.room?.name,
+          status: "spawning",
+        });
+      }
+    }
+
+    const store = (Memory as any).__pmQueue as Record<string, SpawnRequest[]> | undefined;
+    for (const queueRoom of Object.keys(store ?? {})) {
+      if (roomName && queueRoom !== roomName) continue;
+      for (const request of this.sortQueue(store?.[queueRoom] ?? [])) {
+        const job: SpawnJob = {
+          role: request.role,
+          name: request.name,
+          roomName: queueRoom,
+          priority: request.priority,
+          status: "queued",
+        };
+        if (request.memory) job.memory = request.memory;
+        jobs.push(job);
       }
     }
     return jobs;
@@ -175,11 +585,11 @@ class PopulationManagerClass {
    * @param role Роль для фильтрации.
    * @param handler Колбэк, выполняемый для каждого крипа.
    */
-  forEachCreepOfRole(role: Role, handler: (sc: SimpleCreep) => void) {
+  forEachCreepOfRole(role: RoleName, handler: (sc: SimpleCreep) => void) {
     for (const n in Game.creeps) {
       const c = Game.creeps[n];
       if (!c) continue;
-      const memRole = (c.memory && (c.memory as any).role) as Role | undefined;
+      const memRole = (c.memory && (c.memory as any).role) as RoleName | undefined;
       if (memRole === role) handler(new SimpleCreep(c));
     }
   }
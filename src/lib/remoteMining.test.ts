@@ -0,0 +1,98 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert = require('node:assert');
+import { Role } from './roles';
+import { ActionStatus } from './status';
+import { PopulationManager } from './populationManager';
+import { SimpleCreep } from './simpleCreep';
+import {
+  getRemoteReport,
+  isRemotePaused,
+  maintainRemoteMining,
+  registerRemote,
+  registerRemoteRoles,
+  runRemoteHauler,
+} from './remoteMining';
+import { getRoleDefinition } from './roleRegistry';
+import { createCreep, createPosition, createRoom, createSpawn, createStore, setupScreepsGlobals } from './__tests__/screeps-mock';
+
+describe('remoteMining', () => {
+  let remoteStructures: Structure[];
+
+  beforeEach(() => {
+    setupScreepsGlobals();
+    remoteStructures = [];
+    const home = createRoom({ name: 'W1N1', energyAvailable: 300, energyCapacityAvailable: 300 });
+    const remote = createRoom({
+      name: 'W2N1',
+      find: ((type: FindConstant) => {
+        if (type === FIND_SOURCES) return [{ id: 'a' }, { id: 'b' }];
+        if (type === FIND_HOSTILE_STRUCTURES) return remoteStructures;
+        return [];
+      }) as Room['find'],
+    });
+    (Game as any).rooms = { W1N1: home, W2N1: remote };
+    Game.spawns = {
+      home: createSpawn({
+        room: home,
+        spawnCreep: (body, name, opts) => {
+          const parts = body.map(type => ({ type, hits: 100 })) as BodyPartDefinition[];
+          Game.creeps[name] = createCreep({ name, body: parts, memory: opts?.memory as CreepMemory });
+          return OK;
+        },
+      }),
+    };
+    // A home harvester keeps the spawn queue out of emergency mode.
+    Game.creeps = { h: createCreep({ memory: { role: Role.Harvester, home: 'W1N1' } as CreepMemory }) };
+    registerRemote('W2N1', 'W1N1');
+  });
+
+  const queuedFor = (role: Role) =>
+    PopulationManager.getQueuedSpawns('W1N1').filter(job => job.role === role && job.memory?.remote === 'W2N1').length;
+
+  test('queues a miner and a hauler per source and charges spawned bodies to the remote', () => {
+    // Importing the module registers nothing; the roles and their spawn priorities are opt-in.
+    assert.strictEqual(getRoleDefinition(Role.RemoteMiner), undefined);
+    registerRemoteRoles();
+    assert.strictEqual(getRoleDefinition(Role.RemoteMiner)?.priority, 20);
+
+    maintainRemoteMining();
+    const spawned = Object.keys(Game.creeps)
+      .map(name => Game.creeps[name] as Creep)
+      .filter(creep => (creep.memory as any).remote === 'W2N1');
+    assert.strictEqual(spawned.length, 1);
+    assert.strictEqual((spawned[0]?.memory as any).role, Role.RemoteMiner);
+    assert.strictEqual(queuedFor(Role.RemoteMiner), 1);
+    assert.strictEqual(queuedFor(Role.RemoteHauler), 2);
+    // No CLAIM part fits into 300 energy, so no reserver is requested yet.
+    assert.strictEqual(queuedFor(Role.Reserver), 0);
+
+    Game.time = 1;
+    (Game.spawns.home as StructureSpawn).spawning = { name: 'busy' } as Spawning;
+    maintainRemoteMining();
+    assert.strictEqual(queuedFor(Role.RemoteMiner), 1);
+    assert.strictEqual(queuedFor(Role.RemoteHauler), 2);
+    assert.strictEqual(getRemoteReport('W2N1')?.spawnCost, 200);
+    assert.strictEqual(getRemoteReport('W2N1')?.net, -200);
+  });
+
+  test('an invader core pauses the remote, drops its queue and haulers bank what they brought home', () => {
+    remoteStructures = [{ structureType: STRUCTURE_INVADER_CORE } as Structure];
+    (Game.spawns.home as StructureSpawn).spawning = { name: 'busy' } as Spawning;
+    PopulationManager.enqueueSpawn(Role.RemoteMiner, { roomName: 'W1N1', memory: { remote: 'W2N1' } });
+
+    const [report] = maintainRemoteMining('W1N1');
+    assert.strictEqual(report?.paused, true);
+    assert.strictEqual(report?.pauseReason, 'invaderCore');
+    assert.ok(isRemotePaused('W2N1'));
+    assert.strictEqual(queuedFor(Role.RemoteMiner), 0);
+
+    const hauler = createCreep({
+      pos: createPosition(25, 25, 'W1N1'),
+      room: (Game as any).rooms.W1N1,
+      store: createStore({ used: 0, capacity: 100 }),
+      memory: { role: Role.RemoteHauler, remote: 'W2N1', home: 'W1N1', hauling: true, load: 100 } as CreepMemory,
+    });
+    assert.strictEqual(runRemoteHauler(new SimpleCreep(hauler)), ActionStatus.ALREADY_THERE);
+    assert.strictEqual(getRemoteReport('W2N1')?.income, 100);
+  });
+});
@@ -0,0 +1,369 @@
+import { Role } from "./roles";
+import { ActionStatus } from "./status";
+import { getBodyCost, getBodyRecipe } from "./bodyRecipes";
+import { registerRole } from "./roleRegistry";
+import { PopulationManager } from "./populationManager";
+import { assignSource, getSourceContainer } from "./sourceAssignment";
+import { getClaimTarget } from "./logisticsBroker";
+import { roleOf } from "./lifecycle";
+import type { SimpleCreep } from "./simpleCreep";
+
+/** Запись о комнате удалённой добычи в `Memory.__remotes`. */
+export interface RemoteRoomMemory {
+  /** Домашняя комната, спауны которой обслуживают удалёнку и куда возят энергию. */
+  home: string;
+  /** Число источников; до первого осмотра комнаты считается, что источник один. */
+  sources: number;
+  /** Сколько возчиков держать; по умолчанию по одному на источник. */
+  haulers?: number;
+  /** Тик, до которого держится наша резервация контроллера (0 — резервации нет). */
+  reservedUntil?: number;
+  /** Энергия, привезённая домой. */
+  income: number;
+  /** Энергия, потраченная на спаун крипов удалёнки. */
+  spawnCost: number;
+  /** Тик регистрации: от него считается доход за тик. */
+  since: number;
+  /** До этого тика удалёнка свёрнута, крипы ждут дома. */
+  pausedUntil?: number;
+  pauseReason?: RemotePauseReason;
+}
+
+export type RemotePauseReason = "hostiles" | "invaderCore";
+
+export interface RemoteOptions {
+  /** Сколько возчиков держать (по умолчанию — по числу источников). */
+  haulers?: number;
+}
+
+/** Сводка по удалёнке: доход против стоимости спауна. */
+export interface RemoteReport {
+  roomName: string;
+  home: string;
+  paused: boolean;
+  pauseReason?: RemotePauseReason;
+  income: number;
+  spawnCost: number;
+  /** Доход минус стоимость спауна. */
+  net: number;
+  /** `net`, делённый на число тиков с регистрации. */
+  netPerTick: number;
+}
+
+/** Память крипа удалёнки. */
+interface RemoteCreepMemory {
+  remote?: string;
+  home?: string;
+  /** Возчик везёт энергию домой. */
+  hauling?: boolean;
+  /** Сколько энергии возчик вёз, когда повернул домой. */
+  load?: number;
+  /** Стоимость тела уже учтена в `spawnCost`. */
+  _paid?: boolean;
+}
+
+/** Резервацию продлеваем, когда до её конца остаётся меньше стольких тиков. */
+const RESERVE_RENEW_AT = 1000;
+/** На сколько сворачиваем удалёнку, увидев ядро захватчиков: потом комната проверяется снова. */
+const INVADER_CORE_PAUSE = 1500;
+
+function getStore(): Record<string, RemoteRoomMemory> {
+  if (!(Memory as any).__remotes) (Memory as any).__remotes = {};
+  return (Memory as any).__remotes as Record<string, RemoteRoomMemory>;
+}
+
+function remoteMemory(creep: Creep): RemoteCreepMemory {
+  return creep.memory as RemoteCreepMemory;
+}
+
+/**
+ * Регистрирует комнату удалённой добычи. Повторный вызов обновляет настройки, не сбрасывая статистику.
+ * @param roomName Соседняя комната с источниками.
+ * @param homeRoom Комната со спаунами, которая обслуживает удалёнку.
+ * @param options Число возчиков.
+ */
+export function registerRemote(roomName: string, homeRoom: string, options: RemoteOptions = {}): void {
+  const store = getStore();
+  const existing = store[roomName];
+  const remote: RemoteRoomMemory = existing ?? { home: homeRoom, sources: 1, income: 0, spawnCost: 0, since: Game.time };
+  remote.home = homeRoom;
+  if (options.haulers !== undefined) remote.haulers = options.haulers;
+  store[roomName] = remote;
+}
+
+/**
+ * Убирает комнату из удалённой добычи; её крипы доживают без заданий, новые не спаунятся.
+ * @param roomName Имя комнаты.
+ * @returns `true`, если комната была зарегистрирована.
+ */
+export function unregisterRemote(roomName: string): boolean {
+  const store = getStore();
+  if (!store[roomName]) return false;
+  delete store[roomName];
+  return true;
+}
+
+/**
+ * Перечисляет зарегистрированные удалёнки.
+ * @param homeRoom Если задано — только удалёнки этой домашней комнаты.
+ * @returns Имена комнат.
+ */
+export function getRemotes(homeRoom?: string): string[] {
+  const store = getStore();
+  return Object.keys(store).filter(name => !homeRoom || store[name]?.home === homeRoom);
+}
+
+/**
+ * Свёрнута ли удалёнка из-за врагов или ядра захватчиков.
+ * @param roomName Имя комнаты.
+ */
+export function isRemotePaused(roomName: string): boolean {
+  const remote = getStore()[roomName];
+  return !!remote && (remote.pausedUntil ?? 0) > Game.time;
+}
+
+/**
+ * Записывает энергию, которую привезли домой из удалёнки. Возчики удалёнки вызывают это сами.
+ * @param roomName Имя удалёнки.
+ * @param amount Сколько энергии доставлено.
+ */
+export function recordRemoteIncome(roomName: string, amount: number): void {
+  const remote = getStore()[roomName];
+  if (remote && amount > 0) remote.income += amount;
+}
+
+/**
+ * Доход удалёнки против стоимости её крипов.
+ * @param roomName Имя комнаты.
+ * @returns Сводка или `null`, если комната не зарегистрирована.
+ */
+export function getRemoteReport(roomName: string): RemoteReport | null {
+  const remote = getStore()[roomName];
+  if (!remote) return null;
+  const net = remote.income - remote.spawnCost;
+  const report: RemoteReport = {
+    roomName,
+    home: remote.home,
+    paused: isRemotePaused(roomName),
+    income: remote.income,
+    spawnCost: remote.spawnCost,
+    net,
+    netPerTick: net / Math.max(1, Game.time - remote.since),
+  };
+  if (report.paused && remote.pauseReason) report.pauseReason = remote.pauseReason;
+  return report;
+}
+
+function isDangerous(hostile: Creep): boolean {
+  return hostile.body.some(p => (p.type === ATTACK || p.type === RANGED_ATTACK) && p.hits > 0);
+}
+
+function getMyUsername(): string | undefined {
+  for (const name in Game.spawns) return Game.spawns[name]?.owner?.username;
+  return undefined;
+}
+
+// Only visible rooms are scanned; without vision the last known state stays in Memory.
+function scanRemote(remote: RemoteRoomMemory, room: Room): void {
+  remote.sources = Math.max(1, room.find(FIND_SOURCES).length);
+
+  const cores = room.find(FIND_HOSTILE_STRUCTURES, {
+    filter: s => s.structureType === STRUCTURE_INVADER_CORE,
+  });
+  const hostiles = (room.find(FIND_HOSTILE_CREEPS) as Creep[]).filter(isDangerous);
+  if (cores.length > 0) {
+    remote.pausedUntil = Game.time + INVADER_CORE_PAUSE;
+    remote.pauseReason = "invaderCore";
+  } else if (hostiles.length > 0) {
+    // Invaders leave only when they die, so wait out the longest-living one.
+    remote.pausedUntil = Game.time + Math.max(...hostiles.map(h => h.ticksToLive ?? CREEP_LIFE_TIME));
+    remote.pauseReason = "hostiles";
+  }
+
+  const reservation = room.controller?.reservation;
+  const mine = reservation && reservation.username === getMyUsername();
+  remote.reservedUntil = mine ? Game.time + reservation.ticksToEnd : 0;
+}
+
+// Bodies are paid for once, when the creep first shows up in Game.creeps (spawning creeps included).
+function chargeSpawnCosts(store: Record<string, RemoteRoomMemory>): void {
+  for (const name in Game.creeps) {
+    const creep = Game.creeps[name];
+    const memory = creep && remoteMemory(creep);
+    if (!creep || !memory?.remote || memory._paid) continue;
+    const remote = store[memory.remote];
+    if (remote) remote.spawnCost += getBodyCost(creep.body.map(p => p.type));
+    memory._paid = true;
+  }
+}
+
+function canAffordReserver(homeRoom: string): boolean {
+  const recipe = getBodyRecipe(Role.Reserver);
+  const room = Game.rooms?.[homeRoom];
+  if (!recipe || !room) return false;
+  return (room.energyCapacityAvailable ?? 0) >= getBodyCost(recipe.base);
+}
+
+function desiredCreeps(remote: RemoteRoomMemory): Partial<Record<Role, number>> {
+  const reservationLow = (remote.reservedUntil ?? 0) - Game.time < RESERVE_RENEW_AT;
+  return {
+    [Role.Reserver]: reservationLow && canAffordReserver(remote.home) ? 1 : 0,
+    [Role.RemoteMiner]: remote.sources,
+    [Role.RemoteHauler]: remote.haulers ?? remote.sources,
+  };
+}
+
+function countRemoteCreeps(roomName: string, role: Role): number {
+  let count = 0;
+  for (const name in Game.creeps) {
+    const creep = Game.creeps[name];
+    if (!creep || remoteMemory(creep).remote !== roomName || roleOf(creep.memory) !== role) continue;
+    if (!PopulationManager.isExpiring(creep)) count += 1;
+  }
+  return count;
+}
+
+/**
+ * Обслуживает удалёнки: осматривает видимые комнаты, сворачивает их при врагах или ядре захватчиков,
+ * учитывает стоимость спауна и ставит недостающих резерватора, майнеров и возчиков в очередь `PopulationManager`.
+ * Вызывайте раз за тик, например через `onTick(() => maintainRemoteMining())`.
+ * @param homeRoom Если задано — только удалёнки этой домашней комнаты.
+ * @returns Сводки по обслуженным удалёнкам.
+ */
+export function maintainRemoteMining(homeRoom?: string): RemoteReport[] {
+  const store = getStore();
+  chargeSpawnCosts(store);
+
+  const homes = new Set<string>();
+  const reports: RemoteReport[] = [];
+  for (const roomName of getRemotes(homeRoom)) {
+    const remote = store[roomName] as RemoteRoomMemory;
+    const room = Game.rooms?.[roomName];
+    if (room) scanRemote(remote, room);
+    homes.add(remote.home);
+
+    const queued = PopulationManager.getQueuedSpawns(remote.home).filter(
+      job => job.status === "queued" && job.memory?.remote === roomName,
+    );
+    if (isRemotePaused(roomName)) {
+      queued.forEach(job => PopulationManager.cancelSpawn(job.name));
+    } else {
+      const desired = desiredCreeps(remote);
+      for (const key of Object.keys(desired)) {
+        const role = key as Role;
+        const have = countRemoteCreeps(roomName, role) + queued.filter(job => job.role === role).length;
+        for (let i = have; i < (desired[role] ?? 0); i++) {
+          PopulationManager.enqueueSpawn(role, { roomName: remote.home, memory: { remote: roomName } });
+        }
+      }
+    }
+    reports.push(getRemoteReport(roomName) as RemoteReport);
+  }
+
+  homes.forEach(home => PopulationManager.processSpawnQueue(home));
+  return reports;
+}
+
+// While a remote is paused its creeps wait at home; RETREATING means they are still on the way.
+function retreat(sc: SimpleCreep, home: string): ActionStatus {
+  const status = sc.moveToRoom(home);
+  return status === ActionStatus.MOVING || status === ActionStatus.STUCK ? ActionStatus.RETREATING : status;
+}
+
+/**
+ * Поведение резерватора: идёт в удалёнку и резервирует контроллер.
+ * @param sc Крип роли `Role.Reserver`.
+ * @returns `RESERVING`, статус движения, `RETREATING`, пока удалёнка свёрнута, или `NO_TARGET`.
+ */
+export function runReserver(sc: SimpleCreep): ActionStatus {
+  const { remote, home } = remoteMemory(sc.creep);
+  if (!remote || !home) return ActionStatus.NO_TARGET;
+  if (isRemotePaused(remote)) return retreat(sc, home);
+  if (sc.creep.room.name !== remote) return sc.moveToRoom(remote);
+
+  const controller = sc.creep.room.controller;
+  if (!controller) return ActionStatus.NO_TARGET;
+  if (!sc.isNear(controller, 1)) return sc.moveNear(controller);
+  return sc.creep.reserveController(controller) === OK ? ActionStatus.RESERVING : ActionStatus.ERROR;
+}
+
+/**
+ * Поведение майнера удалёнки: закрепляется за источником удалёнки и копает (в контейнер, если он есть).
+ * @param sc Крип роли `Role.RemoteMiner`.
+ * @returns Статус `mineAssignedSource`, движения, `RETREATING`, пока удалёнка свёрнута, или `NO_TARGET`.
+ */
+export function runRemoteMiner(sc: SimpleCreep): ActionStatus {
+  const { remote, home } = remoteMemory(sc.creep);
+  if (!remote || !home) return ActionStatus.NO_TARGET;
+  if (isRemotePaused(remote)) return retreat(sc, home);
+  if (sc.creep.room.name !== remote) return sc.moveToRoom(remote);
+
+  if (!assignSource(sc.creep, sc.creep.room)) return ActionStatus.NO_TARGET;
+  return sc.mineAssignedSource();
+}
+
+function collectInRemote(sc: SimpleCreep): ActionStatus {
+  const containers = (sc.creep.room.find(FIND_SOURCES) as Source[])
+    .map(source => getSourceContainer(source))
+    .filter((c): c is StructureContainer => !!c && c.store.getUsedCapacity(RESOURCE_ENERGY) > 0)
+    .sort((a, b) => b.store.getUsedCapacity(RESOURCE_ENERGY) - a.store.getUsedCapacity(RESOURCE_ENERGY));
+  const target = containers[0] ?? sc.findEnergyDropOrContainer();
+  if (!target) return ActionStatus.NO_TARGET;
+  if (!sc.isNear(target, 1)) return sc.moveNear(target);
+  if ((target as Resource).resourceType === RESOURCE_ENERGY) {
+    return sc.creep.pickup(target as Resource) === OK ? ActionStatus.PICKING_UP : ActionStatus.ERROR;
+  }
+  return sc.withdraw(target);
+}
+
+function deliverHome(sc: SimpleCreep): ActionStatus {
+  const room = sc.creep.room;
+  const target = room.storage ?? room.find(FIND_MY_SPAWNS)[0];
+  if (!target) return ActionStatus.NO_TARGET;
+  if (room.storage) {
+    if (!sc.isNear(room.storage, 1)) return sc.moveNear(room.storage);
+    return sc.transferEnergyTo(room.storage);
+  }
+  const status = sc.deliverEnergyToBase();
+  return status === ActionStatus.NOT_IN_RANGE ? sc.moveNear(getClaimTarget(sc.creep) ?? target) : status;
+}
+
+/**
+ * Поведение возчика удалёнки: забирает энергию из контейнеров у источников и с земли, везёт домой
+ * (в хранилище, без него — в спаун и расширения) и записывает привезённое в доход удалёнки.
+ * @param sc Крип роли `Role.RemoteHauler`.
+ * @returns Статус сбора, доставки или движения; `RETREATING`, пока удалёнка свёрнута, или `NO_TARGET`.
+ */
+export function runRemoteHauler(sc: SimpleCreep): ActionStatus {
+  const memory = remoteMemory(sc.creep);
+  const { remote, home } = memory;
+  if (!remote || !home) return ActionStatus.NO_TARGET;
+
+  const energy = sc.getEnergyLevel();
+  if (memory.hauling && energy === 0) {
+    recordRemoteIncome(remote, memory.load ?? 0);
+    memory.hauling = false;
+    delete memory.load;
+  } else if (!memory.hauling && energy > 0 && (sc.full() || isRemotePaused(remote))) {
+    memory.hauling = true;
+    memory.load = energy;
+  }
+
+  if (memory.hauling) {
+    if (sc.creep.room.name !== home) return sc.moveToRoom(home);
+    return deliverHome(sc);
+  }
+  if (isRemotePaused(remote)) return retreat(sc, home);
+  if (sc.creep.room.name !== remote) return sc.moveToRoom(remote);
+  return collectInRemote(sc);
+}
+
+/**
+ * Регистрирует роли удалёнки (резерватор, майнер, возчик) с обработчиками и приоритетами спауна,
+ * чтобы их крипами управлял `runRole()`. Вызовите один раз при загрузке кода, если пользуетесь удалёнками.
+ */
+export function registerRemoteRoles(): void {
+  registerRole(Role.Reserver, { handler: sc => void runReserver(sc), priority: 25 });
+  registerRole(Role.RemoteMiner, { handler: sc => void runRemoteMiner(sc), priority: 20 });
+  registerRole(Role.RemoteHauler, { handler: sc => void runRemoteHauler(sc), priority: 15 });
+}
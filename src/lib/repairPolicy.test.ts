@@ -0,0 +1,79 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert = require('node:assert');
+import { ActionStatus } from './status';
+import { SimpleCreep } from './simpleCreep';
+import { towerDefendBase } from './simpleCreepUtilities';
+import { findRepairTarget, getRepairTarget, needsRepair, setRepairTargets } from './repairPolicy';
+import { createCreep, createPosition, createRoom, createStore, createTower, setupScreepsGlobals } from './__tests__/screeps-mock';
+
+describe('repairPolicy', () => {
+  let structures: Structure[];
+  let room: Room;
+
+  const structure = (id: string, structureType: StructureConstant, hits: number, hitsMax: number, x = 10, extra = {}) =>
+    ({ id, structureType, hits, hitsMax, pos: createPosition(x, 10), room, ...extra }) as unknown as Structure;
+
+  beforeEach(() => {
+    setupScreepsGlobals();
+    structures = [];
+    room = createRoom({
+      controller: { my: true, level: 3 } as StructureController,
+      find: ((type: FindConstant) => (type === FIND_STRUCTURES ? structures : [])) as Room['find'],
+    });
+    (Game as any).rooms = { W0N0: room };
+  });
+
+  test('walls are repaired up to a target that grows with RCL and the energy reserve', () => {
+    const wall = structure('w', STRUCTURE_WALL, 20000, 300000000);
+    assert.strictEqual(getRepairTarget(wall), 30000);
+    assert.ok(needsRepair(wall));
+
+    (room as any).storage = { store: createStore({ used: 200000, capacity: 1000000 }) };
+    assert.strictEqual(getRepairTarget(wall), 60000);
+    (room as any).storage = { store: createStore({ used: 1000, capacity: 1000000 }) };
+    assert.strictEqual(getRepairTarget(wall), 15000);
+    assert.strictEqual(needsRepair(wall), false);
+
+    // Roads are topped up in chunks, not after every decay tick.
+    assert.strictEqual(needsRepair(structure('r', STRUCTURE_ROAD, 4500, 5000)), false);
+    setRepairTargets({ [STRUCTURE_WALL]: 1000 });
+    assert.strictEqual(getRepairTarget(wall), 500);
+  });
+
+  test('a rampart about to decay comes first for creeps and towers', () => {
+    const road = structure('road', STRUCTURE_ROAD, 1000, 5000, 11);
+    const rampart = structure('ramp', STRUCTURE_RAMPART, 250, 1000000, 30, { my: true, ticksToDecay: 40 });
+    const wall = structure('wall', STRUCTURE_WALL, 50000, 300000000, 11);
+    structures = [road, wall, rampart];
+    assert.strictEqual(findRepairTarget(room, createPosition(10, 10)), rampart);
+
+    const creep = createCreep({ room, pos: createPosition(29, 10), store: createStore({ used: 50, capacity: 50 }) });
+    const worker = new SimpleCreep(creep);
+    assert.strictEqual(worker.findClosestDamagedStructure(), rampart);
+    assert.strictEqual(worker.doWork(), ActionStatus.REPAIRING);
+
+    const repaired: string[] = [];
+    const tower = createTower({ room, store: createStore<RESOURCE_ENERGY>({ used: 500, capacity: 1000 }) });
+    (tower as any).repair = (target: Structure) => (repaired.push(target.id), OK);
+    assert.strictEqual(towerDefendBase(tower), ActionStatus.REPAIR);
+    // Without the rampart the tower still fixes the road below half its hits but leaves the strong wall alone.
+    structures = [wall, road];
+    towerDefendBase(tower);
+    assert.strictEqual(repaired.join(','), 'ramp,road');
+  });
+
+  test('doWork in a surplus room repairs a decaying rampart up to the doubled target before upgrading', () => {
+    (room as any).storage = { store: createStore({ used: 200000, capacity: 1000000 }) };
+    const road = structure('road', STRUCTURE_ROAD, 1000, 5000, 11);
+    const rampart = structure('ramp', STRUCTURE_RAMPART, 250, 1000000, 30, { my: true, ticksToDecay: 40 });
+    structures = [road, rampart];
+    assert.strictEqual(getRepairTarget(rampart), 60000);
+
+    const creep = createCreep({ room, pos: createPosition(29, 10), store: createStore({ used: 50, capacity: 50 }) });
+    (room.controller as any).pos = createPosition(30, 11);
+    const repaired: string[] = [];
+    (creep as any).repair = (target: Structure) => (repaired.push(target.id), OK);
+    assert.strictEqual(new SimpleCreep(creep).doWork(), ActionStatus.REPAIRING);
+    assert.strictEqual(repaired.join(','), 'ramp');
+  });
+});
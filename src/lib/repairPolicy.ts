@@ -0,0 +1,118 @@
+import { getSpendingMode, SpendingMode } from "./economy";
+
+/** Целевые hits типа постройки: одно число или значения по уровню контроллера `[RCL0, RCL1, …, RCL8]`. */
+export type RepairTargets = Partial<Record<StructureConstant, number | number[]>>;
+
+export interface RepairOptions {
+  /** Чинить только то, что ниже этой доли цели (по умолчанию — порог политики для типа). Распадающееся вот-вот — всегда. */
+  ratio?: number;
+}
+
+/** Стены и валы по умолчанию: растут с уровнем, а не до 300M hits. */
+const DEFAULT_FORTIFICATION_TARGETS = [0, 0, 10000, 30000, 100000, 300000, 1000000, 3000000, 10000000];
+/** Цель стен и валов умножается на это в зависимости от запаса энергии в хранилище. */
+const RESERVE_FACTORS: Record<SpendingMode, number> = { save: 0.5, normal: 1, surplus: 2 };
+/** Дороги и контейнеры распадаются понемногу: чиним, когда упали ниже этой доли, а не после каждого распада. */
+const DECAYING_REPAIR_RATIO = 0.8;
+/** Постройка, которую распад уничтожит раньше, чем через столько тиков, чинится в первую очередь. */
+const URGENT_DECAY_TICKS = 500;
+
+let targets: RepairTargets = {};
+
+/**
+ * Задаёт целевые hits для типов построек. Значения сливаются с прежними.
+ * @param next Например `{ [STRUCTURE_RAMPART]: 50000 }` или массив по уровням контроллера.
+ */
+export function setRepairTargets(next: RepairTargets): void {
+  targets = { ...targets, ...next };
+}
+
+function isFortification(structure: Structure): boolean {
+  return structure.structureType === STRUCTURE_WALL || structure.structureType === STRUCTURE_RAMPART;
+}
+
+function levelOf(structure: Structure): number {
+  return structure.room?.controller?.my ? structure.room.controller.level : 0;
+}
+
+/**
+ * До скольких hits чинить постройку: для стен и валов — по уровню контроллера (RCL2 — 10k, RCL5 — 300k, RCL8 — 10M),
+ * с поправкой на режим трат комнаты (`save` — половина, `surplus` — вдвое больше); для остальных — `hitsMax`.
+ * Цели из `setRepairTargets` заменяют значения по умолчанию. Больше `hitsMax` цель не бывает.
+ * @param structure Постройка.
+ */
+export function getRepairTarget(structure: Structure): number {
+  const level = levelOf(structure);
+  const custom = targets[structure.structureType];
+  let target = Array.isArray(custom) ? custom[Math.min(level, custom.length - 1)] ?? 0 : custom;
+  if (target === undefined && isFortification(structure)) target = DEFAULT_FORTIFICATION_TARGETS[level] ?? 0;
+  if (target === undefined) return structure.hitsMax;
+  if (isFortification(structure) && structure.room) target *= RESERVE_FACTORS[getSpendingMode(structure.room.name)];
+  return Math.min(target, structure.hitsMax);
+}
+
+function decayOf(structure: Structure): { amount: number; interval: number } | null {
+  switch (structure.structureType) {
+    case STRUCTURE_RAMPART:
+      return { amount: RAMPART_DECAY_AMOUNT, interval: RAMPART_DECAY_TIME };
+    case STRUCTURE_ROAD:
+      return { amount: ROAD_DECAY_AMOUNT, interval: ROAD_DECAY_TIME };
+    case STRUCTURE_CONTAINER:
+      return { amount: CONTAINER_DECAY, interval: structure.room?.controller?.my ? CONTAINER_DECAY_TIME_OWNED : CONTAINER_DECAY_TIME };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Через сколько тиков распад уничтожит валы, дорогу или контейнер, если их не чинить.
+ * Для дорог на болоте и стенах распад сильнее, так что это оценка сверху.
+ * @param structure Постройка.
+ * @returns Число тиков или `null`, если постройка не распадается.
+ */
+export function getTicksUntilDecayed(structure: Structure): number | null {
+  const decay = decayOf(structure);
+  if (!decay) return null;
+  const next = (structure as { ticksToDecay?: number }).ticksToDecay ?? decay.interval;
+  return next + (Math.ceil(structure.hits / decay.amount) - 1) * decay.interval;
+}
+
+/**
+ * Постройку вот-вот уничтожит распад (меньше 500 тиков): её чинят раньше всего остального.
+ * @param structure Постройка.
+ */
+export function isDecayUrgent(structure: Structure): boolean {
+  const ticks = getTicksUntilDecayed(structure);
+  return ticks !== null && ticks < URGENT_DECAY_TICKS && structure.hits < getRepairTarget(structure);
+}
+
+/**
+ * Нужно ли чинить постройку: hits ниже цели `getRepairTarget` (дороги и контейнеры — ниже 80% цели).
+ * Чужие постройки не чинятся.
+ * @param structure Постройка.
+ * @param ratio Своя доля цели, ниже которой чинить.
+ */
+export function needsRepair(structure: Structure, ratio?: number): boolean {
+  if ((structure as OwnedStructure).my === false) return false;
+  if (isDecayUrgent(structure)) return true;
+  const threshold = ratio ?? (decayOf(structure) && !isFortification(structure) ? DECAYING_REPAIR_RATIO : 1);
+  return structure.hits < getRepairTarget(structure) * threshold;
+}
+
+/**
+ * Что чинить в комнате: сначала то, что вот-вот разрушит распад (раньше всех — ближайшее к разрушению),
+ * иначе ближайшую к `from` постройку, которой нужен ремонт по `needsRepair`.
+ * @param room Комната.
+ * @param from Позиция крипа или башни.
+ * @param options Доля цели, ниже которой чинить.
+ * @returns Постройка или `null`, если чинить нечего.
+ */
+export function findRepairTarget(room: Room, from: RoomPosition, options: RepairOptions = {}): Structure | null {
+  const damaged = (room.find(FIND_STRUCTURES) as Structure[]).filter(s => needsRepair(s, options.ratio));
+  if (damaged.length === 0) return null;
+  const urgent = damaged
+    .filter(isDecayUrgent)
+    .sort((a, b) => (getTicksUntilDecayed(a) ?? 0) - (getTicksUntilDecayed(b) ?? 0));
+  if (urgent[0]) return urgent[0];
+  return (from.findClosestByRange(damaged) as Structure | null) ?? null;
+}
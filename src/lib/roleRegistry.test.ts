@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import assert = require('node:assert');
+import { Role } from './roles';
+import { getDefaultTargets, getRoleDefinition, registerRole, unregisterRole } from './roleRegistry';
+import { getBodyRecipe } from './bodyRecipes';
+import { PopulationManager } from './populationManager';
+import { runRole } from './simpleCreep';
+import { createCreep, createRoom, createSpawn, setupScreepsGlobals } from './__tests__/screeps-mock';
+
+declare module './roles' {
+  interface CustomRoles {
+    hauler: true;
+  }
+}
+
+describe('roleRegistry', () => {
+  beforeEach(() => setupScreepsGlobals());
+  // The registry is module state shared by every test file in the process.
+  afterEach(() => unregisterRole('hauler'));
+
+  test('registerRole stores handler, body recipe, target and priority', () => {
+    let handled = 0;
+    registerRole('hauler', {
+      handler: () => handled++,
+      body: { base: [CARRY, CARRY, MOVE], segment: [CARRY, MOVE] },
+      target: 2,
+      priority: 70,
+    });
+
+    assert.strictEqual(getBodyRecipe('hauler')?.base.length, 3);
+    assert.strictEqual(getDefaultTargets()['hauler'], 2);
+    assert.strictEqual(PopulationManager.getSpawnPriority('hauler'), 70);
+
+    const room = createRoom();
+    Game.creeps = {
+      a: createCreep({ room, memory: { role: 'hauler' } as CreepMemory }),
+      b: createCreep({ room, memory: { role: Role.Worker } }),
+    };
+    runRole();
+    assert.strictEqual(handled, 1);
+  });
+
+  test('maintainPopulation without targets spawns registered roles', () => {
+    registerRole('hauler', { body: { base: [CARRY, MOVE], segment: [] }, target: 1 });
+    const room = createRoom({ energyAvailable: 300 });
+    let spawnedRole = '';
+    Game.spawns = {
+      s: createSpawn({
+        room,
+        spawnCreep: (_body, _name, opts) => {
+          spawnedRole = (opts?.memory as { role: string }).role;
+          return OK;
+        },
+      }),
+    };
+    Game.creeps = { h: createCreep({ room, memory: { role: Role.Harvester } }) };
+
+    const summary = PopulationManager.maintainPopulation();
+    assert.strictEqual(summary['hauler'], 'SPAWNING');
+    assert.strictEqual(spawnedRole, 'hauler');
+    assert.strictEqual(getRoleDefinition('hauler')?.handler, undefined);
+  });
+
+  test('unregisterRole forgets the role and its body recipe', () => {
+    registerRole('hauler', { body: { base: [CARRY, MOVE], segment: [] }, target: 1 });
+    unregisterRole('hauler');
+    assert.strictEqual(getRoleDefinition('hauler'), undefined);
+    assert.strictEqual(getBodyRecipe('hauler'), undefined);
+    assert.strictEqual(getDefaultTargets()['hauler'], undefined);
+  });
+});
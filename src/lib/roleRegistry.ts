@@ -0,0 +1,67 @@
+import { RoleName } from "./roles";
+import { BodyRecipe, registerBodyRecipe, unregisterBodyRecipe } from "./bodyRecipes";
+import type { SimpleCreep } from "./simpleCreep";
+import type { ModeTargets } from "./economy";
+
+/** Описание роли: поведение, тело и желаемая численность. */
+export interface RoleDefinition {
+  /** Обработчик, который `runRole` вызывает для крипов этой роли. */
+  handler?: (creep: SimpleCreep) => void;
+  /** Рецепт тела, по которому спаунятся крипы роли. */
+  body?: BodyRecipe;
+  /** Численность по умолчанию для `maintainPopulation()` без аргументов; может зависеть от режима трат комнаты. */
+  target?: number | ModeTargets;
+  /** Приоритет в очереди спауна (больше — раньше). */
+  priority?: number;
+}
+
+const definitions: Partial<Record<RoleName, RoleDefinition>> = {};
+
+/**
+ * Регистрирует роль (новую или встроенную) вместе с обработчиком, телом и численностью.
+ * @param role Имя роли из `Role` или из `CustomRoles`.
+ * @param definition Обработчик, рецепт тела, численность и приоритет спауна.
+ */
+export function registerRole(role: RoleName, definition: RoleDefinition): void {
+  definitions[role] = { ...definitions[role], ...definition };
+  if (definition.body) registerBodyRecipe(role, definition.body);
+}
+
+/**
+ * Забывает роль вместе с её рецептом тела, например между тестами или при смене набора ролей.
+ * @param role Имя роли.
+ */
+export function unregisterRole(role: RoleName): void {
+  if (definitions[role]?.body) unregisterBodyRecipe(role);
+  delete definitions[role];
+}
+
+/**
+ * Возвращает описание зарегистрированной роли.
+ * @param role Имя роли.
+ * @returns Описание или `undefined`, если роль не регистрировалась.
+ */
+export function getRoleDefinition(role: RoleName): RoleDefinition | undefined {
+  return definitions[role];
+}
+
+/**
+ * Перечисляет все зарегистрированные роли.
+ * @returns Имена ролей в порядке регистрации.
+ */
+export function getRegisteredRoles(): RoleName[] {
+  return Object.keys(definitions) as RoleName[];
+}
+
+/**
+ * Собирает численность по умолчанию для всех ролей, у которых задан `target`.
+ * @returns Отображение роль → количество.
+ */
+export function getDefaultTargets(): Partial<Record<RoleName, number | ModeTargets>> {
+  const targets: Partial<Record<RoleName, number | ModeTargets>> = {};
+  for (const role of getRegisteredRoles()) {
+    const target = definitions[role]?.target;
+    if (target !== undefined) targets[role] = target;
+  }
+  return targets;
+}
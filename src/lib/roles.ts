@@ -2,4 +2,26 @@ export enum Role {
   Harvester = "harvester",
   Worker = "worker",
   Soldier = "soldier",
+  Reserver = "reserver",
+  RemoteMiner = "remoteMiner",
+  RemoteHauler = "remoteHauler",
 }
+
+/**
+ * Пользовательские роли. Расширяйте интерфейс через `declare module`, чтобы имена ролей проверялись компилятором:
+ * `declare module "./lib/roles" { interface CustomRoles { hauler: true } }`.
+ */
+export interface CustomRoles {}
+
+/** Встроенная роль из `Role` или роль, добавленная в `CustomRoles`. */
+export type RoleName = Role | Extract<keyof CustomRoles, string>;
+
+/**
+ * Схемы памяти по ролям. Расширяйте через `declare module`, чтобы `SimpleCreep<RoleMemory<"hauler">>`
+ * проверял ключи и типы `remember`/`recall`:
+ * `declare module "./lib/roles" { interface RoleMemorySchemas { hauler: { trips: number } } }`.
+ */
+export interface RoleMemorySchemas {}
+
+/** Схема памяти роли; для ролей без схемы — любые ключи. */
+export type RoleMemory<R extends RoleName> = R extends keyof RoleMemorySchemas ? RoleMemorySchemas[R] : Record<string, any>;
@@ -0,0 +1,90 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert = require('node:assert');
+import { drawRoomPlan, getRoomPlan, placeConstructionSites, planRoom, runRoomPlanner } from './roomPlanner';
+import { createPosition, createRoom, setupScreepsGlobals } from './__tests__/screeps-mock';
+
+describe('roomPlanner', () => {
+  let sites: Array<{ x: number; y: number; type: string }>;
+  let room: Room;
+
+  beforeEach(() => {
+    setupScreepsGlobals();
+    sites = [];
+    const spawn = { pos: createPosition(24, 22), structureType: STRUCTURE_SPAWN, my: true };
+    const sources = [{ pos: createPosition(10, 10) }, { pos: createPosition(40, 38) }];
+    const objects: Partial<Record<FindConstant, unknown[]>> = {
+      [FIND_SOURCES]: sources,
+      [FIND_MINERALS]: [{ pos: createPosition(40, 10) }],
+      [FIND_MY_SPAWNS]: [spawn],
+      [FIND_STRUCTURES]: [spawn],
+    };
+    room = createRoom({
+      controller: { my: true, level: 2, pos: createPosition(25, 42) } as StructureController,
+      find: ((type: FindConstant) =>
+        type === FIND_MY_CONSTRUCTION_SITES
+          ? sites.map(s => ({ pos: createPosition(s.x, s.y), structureType: s.type }))
+          : objects[type] ?? []) as Room['find'],
+      createConstructionSite: ((x: number, y: number, type: string) => (sites.push({ x, y, type }), OK)) as Room['createConstructionSite'],
+    });
+    (Game as any).rooms = { W0N0: room };
+    (Game as any).map = { getRoomTerrain: () => ({ get: (x: number, y: number) => (x === 0 || y === 0 || x === 49 || y === 49 ? 1 : 0) }) };
+    // Straight steps towards the target, enough to check that routes are turned into roads.
+    (PathFinder as any).search = (from: RoomPosition, goal: { pos: RoomPosition; range: number }) => {
+      const path: RoomPosition[] = [];
+      let { x, y } = from;
+      while (Math.max(Math.abs(goal.pos.x - x), Math.abs(goal.pos.y - y)) > goal.range) {
+        x += Math.sign(goal.pos.x - x);
+        y += Math.sign(goal.pos.y - y);
+        path.push(createPosition(x, y));
+      }
+      return { path };
+    };
+  });
+
+  test('the bunker is laid out around the existing spawn with every structure and roads to sources', () => {
+    const plan = planRoom('W0N0');
+    assert.ok(plan);
+    const count = (type: BuildableStructureConstant) => plan.structures[type]?.length ?? 0;
+    assert.strictEqual(`${count(STRUCTURE_SPAWN)} ${count(STRUCTURE_EXTENSION)} ${count(STRUCTURE_TOWER)}`, '3 60 6');
+    assert.strictEqual(`${count(STRUCTURE_STORAGE)} ${count(STRUCTURE_TERMINAL)} ${count(STRUCTURE_LAB)}`, '1 1 10');
+    assert.strictEqual(`${count(STRUCTURE_CONTAINER)} ${count(STRUCTURE_LINK)}`, '2 4');
+    assert.ok(plan.structures[STRUCTURE_SPAWN]?.some(([x, y]) => x === 24 && y === 22));
+    // The step next to each source holds its container, with the road leading up to it.
+    assert.ok(plan.structures[STRUCTURE_CONTAINER]?.some(([x, y]) => x === 11 && y === 10));
+    assert.ok(plan.structures[STRUCTURE_ROAD]?.some(([x, y]) => x === 12 && y === 11));
+    assert.strictEqual(getRoomPlan('W0N0'), plan);
+  });
+
+  test('sites are placed as the controller level allows, a few at a time, and the plan can be drawn', () => {
+    assert.strictEqual(placeConstructionSites('W0N0'), 5);
+    assert.ok(sites.every(s => s.type === STRUCTURE_EXTENSION));
+    // Open sites count against the limit, so nothing more is placed until they are built.
+    assert.strictEqual(placeConstructionSites('W0N0'), 0);
+
+    const drawn: string[] = [];
+    (globalThis as any).RoomVisual = class {
+      circle() {
+        drawn.push('road');
+      }
+      text(symbol: string) {
+        drawn.push(symbol);
+      }
+    };
+    drawRoomPlan('W0N0', 2);
+    assert.strictEqual(drawn.filter(s => s === 'E').length, 5);
+    assert.strictEqual(drawn.filter(s => s === 'S').length, 1);
+  });
+
+  test('a room the bunker does not fit in is not searched again every tick', () => {
+    let searches = 0;
+    (Game as any).map = { getRoomTerrain: () => (searches++, { get: () => 1 }) };
+    assert.strictEqual(runRoomPlanner(), 0);
+    assert.strictEqual(getRoomPlan('W0N0'), null);
+    Game.time = 50;
+    runRoomPlanner();
+    assert.strictEqual(searches, 1);
+    Game.time = 100;
+    runRoomPlanner();
+    assert.strictEqual(searches, 2);
+  });
+});
@@ -0,0 +1,450 @@
+/** Клетка плана: `[x, y]`. */
+export type PlannedTile = [number, number];
+
+/** План комнаты, сохранённый в `Memory.__plans[roomName]`. */
+export interface RoomPlan {
+  /** Центр бункера: свободная клетка между хранилищем, терминалом и центральным линком. */
+  anchor: { x: number; y: number };
+  /** Клетки построек по типам; внутри типа — в порядке постройки. */
+  structures: Partial<Record<BuildableStructureConstant, PlannedTile[]>>;
+  plannedAt: number;
+  /** Тик и уровень контроллера при последней расстановке стройплощадок. */
+  placedAt?: number;
+  placedLevel?: number;
+}
+
+export interface PlanOptions {
+  /** Центр бункера вручную; без него подбирается рядом с источниками и контроллером (или под уже стоящий спаун). */
+  anchor?: { x: number; y: number };
+}
+
+/** Сколько стройплощадок может одновременно висеть в комнате: так строители не разбегаются по всей базе. */
+const MAX_OPEN_SITES = 5;
+/** Дороги начинаем ставить с этого уровня: раньше энергия нужнее на расширения. */
+const ROADS_FROM_LEVEL = 3;
+/** Без повышения уровня площадки расставляются не чаще, чем раз в столько тиков. */
+const PLACE_INTERVAL = 100;
+/** Клетки ближе этого к краю комнаты не застраиваются. */
+const EDGE_MARGIN = 2;
+/** Вокруг источников, минерала и контроллера оставляем место майнерам и апгрейдерам. */
+const KEEP_CLEAR_RANGE = 2;
+const EXTENSION_COUNT = 60;
+/** Вокруг центра бункера ищем столько свободных клеток, чтобы влезли расширения и лаборатории. */
+const OPEN_AREA_RADIUS = 7;
+const MIN_OPEN_TILES = 150;
+
+/**
+ * Ядро бункера 7×7 вокруг центра (`.`): S — спаун, T — башня, O — хранилище, M — терминал, L — линк,
+ * E — расширение, + — дорога.
+ */
+const CORE_STAMP = [
+  "+++++++",
+  "+TS+ST+",
+  "+T+O+T+",
+  "+SL.M++",
+  "+T+E+T+",
+  "++E+E++",
+  "+++++++",
+];
+/** Десять лабораторий вокруг диагональной дороги (B — лаборатория). */
+const LAB_STAMP = [
+  ".BB+",
+  "BB+B",
+  "B+BB",
+  "+BB.",
+];
+
+function legend(): Record<string, BuildableStructureConstant> {
+  return {
+    S: STRUCTURE_SPAWN,
+    T: STRUCTURE_TOWER,
+    O: STRUCTURE_STORAGE,
+    M: STRUCTURE_TERMINAL,
+    L: STRUCTURE_LINK,
+    E: STRUCTURE_EXTENSION,
+    B: STRUCTURE_LAB,
+    "+": STRUCTURE_ROAD,
+  };
+}
+
+/** Порядок постройки: сначала то, что даёт энергию и защиту, дороги — последними. */
+function buildOrder(): BuildableStructureConstant[] {
+  return [
+    STRUCTURE_SPAWN,
+    STRUCTURE_EXTENSION,
+    STRUCTURE_TOWER,
+    STRUCTURE_STORAGE,
+    STRUCTURE_CONTAINER,
+    STRUCTURE_LINK,
+    STRUCTURE_TERMINAL,
+    STRUCTURE_LAB,
+    STRUCTURE_ROAD,
+  ];
+}
+
+function getStore(): Record<string, RoomPlan> {
+  if (!(Memory as any).__plans) (Memory as any).__plans = {};
+  return (Memory as any).__plans as Record<string, RoomPlan>;
+}
+
+/** `Memory.__planFailures[roomName]`: тик, когда бункер в комнату не поместился. */
+function getFailures(): Record<string, number> {
+  if (!(Memory as any).__planFailures) (Memory as any).__planFailures = {};
+  return (Memory as any).__planFailures as Record<string, number>;
+}
+
+/** Разметка во время планирования: "x,y" → тип постройки. */
+type Layout = Map<string, BuildableStructureConstant>;
+
+const key = (x: number, y: number) => `${x},${y}`;
+const range = (a: { x: number; y: number }, b: { x: number; y: number }) => Math.max(Math.abs(a.x - b.x), Math.abs(a.y - b.y));
+
+function stampTiles(stamp: string[], originX: number, originY: number): Array<{ x: number; y: number; char: string }> {
+  const tiles: Array<{ x: number; y: number; char: string }> = [];
+  stamp.forEach((row, dy) => {
+    for (let dx = 0; dx < row.length; dx++) tiles.push({ x: originX + dx, y: originY + dy, char: row.charAt(dx) });
+  });
+  return tiles;
+}
+
+/** Что мешает строить в комнате: стены, края, места у источников, минерала и контроллера. */
+class BuildArea {
+  readonly terrain: RoomTerrain;
+  readonly keepClear: RoomPosition[];
+  readonly blocked: Set<string>;
+
+  constructor(room: Room) {
+    this.terrain = Game.map.getRoomTerrain(room.name);
+    const sources = room.find(FIND_SOURCES) as Source[];
+    const minerals = room.find(FIND_MINERALS) as Mineral[];
+    this.keepClear = sources.map(s => s.pos).concat(minerals.map(m => m.pos));
+    if (room.controller) this.keepClear.push(room.controller.pos);
+    this.blocked = new Set(this.keepClear.map(pos => key(pos.x, pos.y)));
+  }
+
+  isWall(x: number, y: number): boolean {
+    return (this.terrain.get(x, y) & TERRAIN_MASK_WALL) !== 0 || this.blocked.has(key(x, y));
+  }
+
+  canBuild(x: number, y: number): boolean {
+    if (x < EDGE_MARGIN || y < EDGE_MARGIN || x > 49 - EDGE_MARGIN || y > 49 - EDGE_MARGIN) return false;
+    if (this.isWall(x, y)) return false;
+    return !this.keepClear.some(pos => range(pos, { x, y }) <= KEEP_CLEAR_RANGE);
+  }
+}
+
+function fitsStamp(area: BuildArea, layout: Layout, stamp: string[], originX: number, originY: number): boolean {
+  return stampTiles(stamp, originX, originY).every(
+    t => t.char === "." || (area.canBuild(t.x, t.y) && !layout.has(key(t.x, t.y))),
+  );
+}
+
+function applyStamp(layout: Layout, stamp: string[], originX: number, originY: number): void {
+  const types = legend();
+  for (const t of stampTiles(stamp, originX, originY)) {
+    const type = types[t.char];
+    if (type) layout.set(key(t.x, t.y), type);
+  }
+}
+
+function chooseAnchor(room: Room, area: BuildArea): { x: number; y: number } | null {
+  const core = new Map<string, BuildableStructureConstant>();
+  const half = Math.floor(CORE_STAMP.length / 2);
+
+  // Уже стоящий спаун должен попасть на одно из мест спаунов в ядре.
+  const spawn = (room.find(FIND_MY_SPAWNS) as StructureSpawn[])[0];
+  if (spawn) {
+    for (const t of stampTiles(CORE_STAMP, -half, -half).filter(t => t.char === "S")) {
+      const anchor = { x: spawn.pos.x - t.x, y: spawn.pos.y - t.y };
+      const blocked = stampTiles(CORE_STAMP, anchor.x - half, anchor.y - half).some(
+        c => c.char !== "." && !(c.x === spawn.pos.x && c.y === spawn.pos.y) && !area.canBuild(c.x, c.y),
+      );
+      if (!blocked && !area.isWall(anchor.x, anchor.y)) return anchor;
+    }
+  }
+
+  const targets = area.keepClear;
+  let best: { x: number; y: number } | null = null;
+  let bestScore = Infinity;
+  for (let x = EDGE_MARGIN + half; x <= 49 - EDGE_MARGIN - half; x++) {
+    for (let y = EDGE_MARGIN + half; y <= 49 - EDGE_MARGIN - half; y++) {
+      if (area.isWall(x, y) || !fitsStamp(area, core, CORE_STAMP, x - half, y - half)) continue;
+      let open = 0;
+      for (let dx = -OPEN_AREA_RADIUS; dx <= OPEN_AREA_RADIUS; dx++) {
+        for (let dy = -OPEN_AREA_RADIUS; dy <= OPEN_AREA_RADIUS; dy++) {
+          if (area.canBuild(x + dx, y + dy)) open++;
+        }
+      }
+      if (open < MIN_OPEN_TILES) continue;
+      const score = targets.reduce((sum, pos) => sum + range(pos, { x, y }), 0);
+      if (score < bestScore) {
+        best = { x, y };
+        bestScore = score;
+      }
+    }
+  }
+  return best;
+}
+
+function placeLabs(area: BuildArea, layout: Layout, anchor: { x: number; y: number }): void {
+  const size = LAB_STAMP.length;
+  const candidates: Array<{ x: number; y: number }> = [];
+  for (let x = EDGE_MARGIN; x <= 49 - EDGE_MARGIN - size + 1; x++) {
+    for (let y = EDGE_MARGIN; y <= 49 - EDGE_MARGIN - size + 1; y++) candidates.push({ x, y });
+  }
+  const centre = (c: { x: number; y: number }) => ({ x: c.x + size / 2, y: c.y + size / 2 });
+  candidates.sort((a, b) => range(centre(a), anchor) - range(centre(b), anchor));
+  const origin = candidates.find(c => fitsStamp(area, layout, LAB_STAMP, c.x, c.y));
+  if (origin) applyStamp(layout, LAB_STAMP, origin.x, origin.y);
+}
+
+function isFieldRoad(anchor: { x: number; y: number }, x: number, y: number): boolean {
+  const mod4 = (n: number) => ((n % 4) + 4) % 4;
+  return mod4(x - anchor.x + (y - anchor.y)) === 0 || mod4(x - anchor.x - (y - anchor.y)) === 0;
+}
+
+// Расширения заполняют место вокруг ядра по расстоянию пешком, оставляя между собой диагональные дороги.
+function placeExtensions(area: BuildArea, layout: Layout, anchor: { x: number; y: number }): void {
+  let needed = EXTENSION_COUNT - Array.from(layout.values()).filter(t => t === STRUCTURE_EXTENSION).length;
+  const extensions: Array<{ x: number; y: number }> = [];
+  const seen = new Set<string>([key(anchor.x, anchor.y)]);
+  const queue: Array<{ x: number; y: number }> = [anchor];
+
+  for (let i = 0; i < queue.length && needed > 0; i++) {
+    const tile = queue[i] as { x: number; y: number };
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        const x = tile.x + dx;
+        const y = tile.y + dy;
+        if (seen.has(key(x, y)) || x < 1 || y < 1 || x > 48 || y > 48 || area.isWall(x, y)) continue;
+        seen.add(key(x, y));
+        const planned = layout.get(key(x, y));
+        if (planned && planned !== STRUCTURE_ROAD) continue;
+        queue.push({ x, y });
+        if (planned || needed <= 0 || !area.canBuild(x, y) || isFieldRoad(anchor, x, y)) continue;
+        layout.set(key(x, y), STRUCTURE_EXTENSION);
+        extensions.push({ x, y });
+        needed--;
+      }
+    }
+  }
+
+  for (const ext of extensions) {
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        const x = ext.x + dx;
+        const y = ext.y + dy;
+        if (!layout.has(key(x, y)) && area.canBuild(x, y) && isFieldRoad(anchor, x, y)) layout.set(key(x, y), STRUCTURE_ROAD);
+      }
+    }
+  }
+}
+
+function layoutMatrix(layout: Layout): CostMatrix {
+  const costs = new PathFinder.CostMatrix();
+  layout.forEach((type, tile) => {
+    const [x, y] = tile.split(",").map(Number) as [number, number];
+    if (type === STRUCTURE_ROAD) costs.set(x, y, 1);
+    else if (type !== STRUCTURE_CONTAINER) costs.set(x, y, 0xff);
+  });
+  return costs;
+}
+
+function freeNeighbour(area: BuildArea, layout: Layout, tile: { x: number; y: number }, near: RoomPosition): { x: number; y: number } | null {
+  const options: Array<{ x: number; y: number }> = [];
+  for (let dx = -1; dx <= 1; dx++) {
+    for (let dy = -1; dy <= 1; dy++) {
+      const x = tile.x + dx;
+      const y = tile.y + dy;
+      if ((dx || dy) && x > 0 && y > 0 && x < 49 && y < 49 && !area.isWall(x, y) && !layout.has(key(x, y))) options.push({ x, y });
+    }
+  }
+  options.sort((a, b) => range(a, near) - range(b, near));
+  return options[0] ?? null;
+}
+
+function addRoads(layout: Layout, path: RoomPosition[]): void {
+  for (const p of path) {
+    if (!layout.has(key(p.x, p.y))) layout.set(key(p.x, p.y), STRUCTURE_ROAD);
+  }
+}
+
+// Дороги от ядра к каждому источнику и контроллеру; на последнем шаге у источника стоит его контейнер.
+function placeRoutes(room: Room, area: BuildArea, layout: Layout, anchor: { x: number; y: number }): void {
+  const origin = new RoomPosition(anchor.x, anchor.y, room.name);
+  const route = (target: RoomPosition, targetRange: number): RoomPosition[] =>
+    PathFinder.search(origin, { pos: target, range: targetRange }, {
+      plainCost: 2,
+      swampCost: 10,
+      maxRooms: 1,
+      roomCallback: roomName => (roomName === room.name ? layoutMatrix(layout) : false),
+    }).path;
+
+  const controller = room.controller;
+  if (controller) {
+    const path = route(controller.pos, 3);
+    addRoads(layout, path);
+    const end = path[path.length - 1];
+    const link = end ? freeNeighbour(area, layout, end, controller.pos) : null;
+    if (link) layout.set(key(link.x, link.y), STRUCTURE_LINK);
+  }
+
+  for (const source of room.find(FIND_SOURCES) as Source[]) {
+    const path = route(source.pos, 1);
+    const end = path.pop();
+    addRoads(layout, path);
+    if (!end) continue;
+    layout.set(key(end.x, end.y), STRUCTURE_CONTAINER);
+    const link = freeNeighbour(area, layout, end, source.pos);
+    if (link) layout.set(key(link.x, link.y), STRUCTURE_LINK);
+  }
+}
+
+/**
+ * Составляет план базы и сохраняет его в `Memory.__plans`: ядро-бункер (3 спауна, 6 башен, хранилище, терминал,
+ * центральный линк), 10 лабораторий, 60 расширений с диагональными дорогами между ними, дороги к источникам
+ * и контроллеру, контейнеры и линки у источников и линк у контроллера. Если в комнате уже есть спаун,
+ * бункер ставится так, чтобы он попал на место спауна.
+ * @param roomName Видимая комната.
+ * @param options Центр бункера вручную.
+ * @returns План или `null`, если комната не видна или бункер не помещается (тогда `runRoomPlanner`
+ * повторит попытку не раньше чем через 100 тиков).
+ */
+export function planRoom(roomName: string, options: PlanOptions = {}): RoomPlan | null {
+  const room = Game.rooms?.[roomName];
+  if (!room) return null;
+  const area = new BuildArea(room);
+  const anchor = options.anchor ?? chooseAnchor(room, area);
+  if (!anchor) {
+    getFailures()[roomName] = Game.time;
+    return null;
+  }
+
+  const layout: Layout = new Map();
+  const half = Math.floor(CORE_STAMP.length / 2);
+  applyStamp(layout, CORE_STAMP, anchor.x - half, anchor.y - half);
+  placeLabs(area, layout, anchor);
+  placeExtensions(area, layout, anchor);
+  placeRoutes(room, area, layout, anchor);
+
+  const structures: Partial<Record<BuildableStructureConstant, PlannedTile[]>> = {};
+  const tiles = Array.from(layout.entries()).map(([tile, type]) => {
+    const [x, y] = tile.split(",").map(Number) as [number, number];
+    return { x, y, type };
+  });
+  // Ближе к ядру строится раньше; расширения сохраняют порядок заполнения.
+  for (const t of tiles.filter(t => t.type !== STRUCTURE_EXTENSION).sort((a, b) => range(a, anchor) - range(b, anchor))) {
+    (structures[t.type] ??= []).push([t.x, t.y]);
+  }
+  structures[STRUCTURE_EXTENSION] = tiles.filter(t => t.type === STRUCTURE_EXTENSION).map(t => [t.x, t.y] as PlannedTile);
+
+  const plan: RoomPlan = { anchor, structures, plannedAt: Game.time };
+  getStore()[roomName] = plan;
+  delete getFailures()[roomName];
+  return plan;
+}
+
+/**
+ * Сохранённый план комнаты.
+ * @param roomName Комната.
+ * @returns План или `null`, если его ещё не составляли.
+ */
+export function getRoomPlan(roomName: string): RoomPlan | null {
+  return getStore()[roomName] ?? null;
+}
+
+/**
+ * Удаляет план, например чтобы составить его заново с другим центром.
+ * @param roomName Комната.
+ */
+export function clearRoomPlan(roomName: string): void {
+  delete getStore()[roomName];
+  delete getFailures()[roomName];
+}
+
+/**
+ * Ставит стройплощадки по плану (составляет его, если плана нет) в пределах `CONTROLLER_STRUCTURES`
+ * для текущего уровня контроллера: спауны, расширения, башни, хранилище, контейнеры, линки, терминал,
+ * лаборатории и, начиная с RCL 3, дороги. Одновременно в комнате держится не больше 5 стройплощадок.
+ * @param roomName Своя видимая комната.
+ * @returns Сколько площадок поставлено.
+ */
+export function placeConstructionSites(roomName: string): number {
+  const room = Game.rooms?.[roomName];
+  const level = room?.controller?.my ? room.controller.level : 0;
+  if (!room || level === 0) return 0;
+  const plan = getRoomPlan(roomName) ?? planRoom(roomName);
+  if (!plan) return 0;
+  plan.placedAt = Game.time;
+  plan.placedLevel = level;
+
+  const built = new Set<string>();
+  const counts: Partial<Record<StructureConstant, number>> = {};
+  const sites = room.find(FIND_MY_CONSTRUCTION_SITES) as ConstructionSite[];
+  for (const s of (room.find(FIND_STRUCTURES) as Structure[]).concat(sites as unknown as Structure[])) {
+    built.add(`${key(s.pos.x, s.pos.y)},${s.structureType}`);
+    counts[s.structureType] = (counts[s.structureType] ?? 0) + 1;
+  }
+
+  let open = sites.length;
+  let placed = 0;
+  for (const type of buildOrder()) {
+    if (type === STRUCTURE_ROAD && level < ROADS_FROM_LEVEL) continue;
+    const allowed = CONTROLLER_STRUCTURES[type]?.[level] ?? 0;
+    for (const [x, y] of plan.structures[type] ?? []) {
+      if (open >= MAX_OPEN_SITES) return placed;
+      if ((counts[type] ?? 0) >= allowed) break;
+      if (built.has(`${key(x, y)},${type}`)) continue;
+      if (room.createConstructionSite(x, y, type) !== OK) continue;
+      counts[type] = (counts[type] ?? 0) + 1;
+      open++;
+      placed++;
+    }
+  }
+  return placed;
+}
+
+/**
+ * Для каждой своей комнаты ставит стройплощадки по плану: после повышения уровня контроллера сразу,
+ * иначе раз в 100 тиков. Комнату, где бункер не поместился, планирует заново тоже не чаще раза в 100 тиков.
+ * Вызывайте в основном цикле: `onTick(() => runRoomPlanner())`.
+ * @param force Расставить сейчас во всех комнатах.
+ * @returns Сколько площадок поставлено.
+ */
+export function runRoomPlanner(force = false): number {
+  let placed = 0;
+  for (const roomName in Game.rooms ?? {}) {
+    const controller = Game.rooms[roomName]?.controller;
+    if (!controller?.my) continue;
+    const plan = getRoomPlan(roomName);
+    const failedAt = getFailures()[roomName];
+    const due = plan
+      ? plan.placedAt === undefined || plan.placedLevel !== controller.level || Game.time - plan.placedAt >= PLACE_INTERVAL
+      : failedAt === undefined || Game.time - failedAt >= PLACE_INTERVAL;
+    if (force || due) placed += placeConstructionSites(roomName);
+  }
+  return placed;
+}
+
+/**
+ * Рисует план комнаты через `RoomVisual`: дороги — точками, постройки — буквами (как в шаблоне бункера).
+ * @param roomName Комната.
+ * @param level Рисовать только то, что доступно на этом уровне контроллера (по умолчанию всё).
+ */
+export function drawRoomPlan(roomName: string, level = 8): void {
+  const plan = getRoomPlan(roomName);
+  if (!plan) return;
+  const visual = new RoomVisual(roomName);
+  const types = legend();
+  const symbols: Partial<Record<BuildableStructureConstant, string>> = { [STRUCTURE_CONTAINER]: "C" };
+  for (const char of Object.keys(types)) symbols[types[char] as BuildableStructureConstant] = char;
+
+  for (const type of buildOrder()) {
+    const allowed = CONTROLLER_STRUCTURES[type]?.[level] ?? 0;
+    for (const [x, y] of (plan.structures[type] ?? []).slice(0, allowed)) {
+      if (type === STRUCTURE_ROAD) visual.circle(x, y, { radius: 0.15, fill: "#aaaaaa", opacity: 0.6 });
+      else visual.text(symbols[type] ?? "?", x, y + 0.25, { font: 0.6, color: "#ffe56d", opacity: 0.8 });
+    }
+  }
+  visual.circle(plan.anchor.x, plan.anchor.y, { radius: 0.4, fill: "transparent", stroke: "#ffe56d" });
+}
@@ -3,6 +3,7 @@ import assert = require('node:assert');
 import { ActionStatus } from './status';
 import { Role } from './roles';
 import { SimpleCreep, forEachCreep, onTick, runRole, runTickHandlers } from './simpleCreep';
+import { defineStateMachine } from './stateMachine';
 import {
   createCreep,
   createPosition,
@@ -138,7 +139,7 @@ describe('SimpleCreep Chapter1 harvesting', () => {
 
   test('findClosestTarget can resolve controller and dropped energy', () => {
     const controller = { pos: createPosition(1, 1) } as StructureController;
-    const drop = { pos: createPosition(2, 2), resourceType: RESOURCE_ENERGY } as Resource;
+    const drop = { pos: createPosition(2, 2), resourceType: RESOURCE_ENERGY, amount: 50 } as Resource;
     const room = createRoom({
       controller,
       find: (type: FindConstant) => (type === FIND_DROPPED_RESOURCES ? [drop] : type === FIND_SOURCES ? [] : []),
@@ -151,6 +152,109 @@ describe('SimpleCreep Chapter1 harvesting', () => {
   });
 });
 
+describe('Resource logistics', () => {
+  beforeEach(() => {
+    setupScreepsGlobals();
+  });
+
+  const resourceStore = (contents: Record<string, number>, capacity: number) => {
+    const used = Object.keys(contents).reduce((sum, r) => sum + (contents[r] ?? 0), 0);
+    return {
+      ...contents,
+      getUsedCapacity: (r?: string) => (r ? contents[r] ?? 0 : used),
+      getFreeCapacity: () => capacity - used,
+    } as unknown as Store<ResourceConstant, false>;
+  };
+
+  test('per-resource levels and transferAll dump one resource type per tick', () => {
+    const sent: string[] = [];
+    const creep = createCreep({
+      store: resourceStore({ energy: 0, H: 20, O: 5 }, 50),
+      transfer: ((_t: unknown, resource: string) => (sent.push(resource), OK)) as Creep['transfer'],
+    });
+    const sc = new SimpleCreep(creep);
+    assert.strictEqual(sc.getResourceLevel('H' as ResourceConstant), 20);
+    assert.strictEqual(sc.emptyOf(), true);
+    assert.strictEqual(sc.fullOf('O' as ResourceConstant), false);
+    assert.strictEqual(sc.getCarriedResources().join(','), 'H,O');
+
+    const terminal = { pos: createPosition(0, 1), store: resourceStore({}, 1000) } as unknown as StructureTerminal;
+    assert.strictEqual(sc.transferAll(terminal), ActionStatus.TRANSFERRING);
+    assert.strictEqual(sent.join(','), 'H');
+    const emptyCreep = new SimpleCreep(createCreep({ store: resourceStore({}, 50) }));
+    assert.strictEqual(emptyCreep.transferAll(terminal), ActionStatus.EMPTY);
+  });
+
+  test('withdrawResource and transferResource clamp amounts to what fits', () => {
+    const calls: string[] = [];
+    const creep = createCreep({
+      store: resourceStore({ U: 40 }, 70),
+      withdraw: ((_t: unknown, r: string, n: number) => (calls.push(`w ${r} ${n}`), OK)) as Creep['withdraw'],
+      transfer: ((_t: unknown, r: string, n: number) => (calls.push(`t ${r} ${n}`), OK)) as Creep['transfer'],
+    });
+    const sc = new SimpleCreep(creep);
+    const terminal = { pos: createPosition(1, 1), store: resourceStore({ H: 100 }, 110) } as unknown as StructureTerminal;
+
+    assert.strictEqual(sc.withdrawResource(terminal, 'H' as ResourceConstant, 50), ActionStatus.WITHDRAWING);
+    assert.strictEqual(sc.withdrawResource(terminal, 'O' as ResourceConstant), ActionStatus.NO_TARGET);
+    assert.strictEqual(sc.transferResource(terminal, 'U' as ResourceConstant, 25), ActionStatus.TRANSFERRING);
+    const full = { pos: createPosition(1, 1), store: resourceStore({ H: 10 }, 10) } as unknown as StructureTerminal;
+    assert.strictEqual(sc.transferResource(full, 'U' as ResourceConstant), ActionStatus.TARGET_FULL);
+    assert.strictEqual(calls.join('|'), 'w H 30|t U 10');
+  });
+});
+
+describe('Mineral mining', () => {
+  beforeEach(() => {
+    setupScreepsGlobals();
+  });
+
+  const createMineral = (mineralAmount: number, extractor: Partial<StructureExtractor> | null) => {
+    const pos = createPosition(10, 10);
+    pos.lookFor = (() => (extractor ? [{ structureType: STRUCTURE_EXTRACTOR, ...extractor }] : [])) as RoomPosition['lookFor'];
+    return { pos, mineralType: 'H', mineralAmount, ticksToRegeneration: 500 } as unknown as Mineral;
+  };
+
+  test('harvest on a mineral reports missing extractor, cooldown and depletion', () => {
+    const creep = createCreep({ pos: createPosition(10, 11) });
+    const sc = new SimpleCreep(creep);
+    assert.strictEqual(sc.harvest(createMineral(1000, null)), ActionStatus.NO_TARGET);
+    assert.strictEqual(sc.harvest(createMineral(1000, { my: false, cooldown: 0 })), ActionStatus.NO_TARGET);
+    assert.strictEqual(sc.harvest(createMineral(1000, { my: true, cooldown: 3 })), ActionStatus.COOLDOWN);
+    assert.strictEqual(sc.harvest(createMineral(0, { my: true, cooldown: 0 })), ActionStatus.DEPLETED);
+    assert.strictEqual(sc.harvest(createMineral(1000, { my: true, cooldown: 0 })), ActionStatus.HARVESTING);
+  });
+
+  test('mineMineral pauses while depleted and unloads into the container next to the mineral', () => {
+    const mineral = createMineral(1000, { my: true, cooldown: 0 });
+    const container = {
+      structureType: STRUCTURE_CONTAINER,
+      pos: createPosition(10, 11),
+      store: createStore({ capacity: 2000 }),
+    } as unknown as StructureContainer;
+    const room = createRoom({
+      find: ((type: FindConstant) => {
+        if (type === FIND_MINERALS) return [mineral];
+        if (type === FIND_STRUCTURES) return [container];
+        return [];
+      }) as Room['find'],
+    });
+    const targets: unknown[] = [];
+    const full = createCreep({
+      pos: createPosition(10, 11),
+      room,
+      store: { H: 50, getUsedCapacity: () => 50, getFreeCapacity: () => 0 } as unknown as Store<ResourceConstant, false>,
+      transfer: ((target: unknown) => (targets.push(target), OK)) as Creep['transfer'],
+    });
+    assert.strictEqual(new SimpleCreep(full).mineMineral(), ActionStatus.TRANSFERRING);
+    assert.strictEqual(targets[0], container);
+
+    const idle = new SimpleCreep(createCreep({ pos: createPosition(10, 11), room, store: createStore({ capacity: 50 }) }));
+    (mineral as { mineralAmount: number }).mineralAmount = 0;
+    assert.strictEqual(idle.mineMineral(), ActionStatus.DEPLETED);
+  });
+});
+
 describe('Chapter3 work routines', () => {
   beforeEach(() => setupScreepsGlobals());
 
@@ -206,3 +310,40 @@ describe('Chapter4 combat routines', () => {
     assert.strictEqual(healthy.healSelfIfNeeded(), ActionStatus.HEALTHY);
   });
 });
+
+describe('State machines', () => {
+  beforeEach(() => setupScreepsGlobals());
+
+  test('runStateMachine persists state in memory and transitions on ActionStatus', () => {
+    const log: string[] = [];
+    let energy = 0;
+    const machine = defineStateMachine({
+      name: 'hauler',
+      initial: 'refill',
+      states: {
+        refill: {
+          run: () => (energy >= 50 ? ActionStatus.FULL : ((energy += 50), ActionStatus.WITHDRAWING)),
+          enter: () => log.push('enter refill'),
+          exit: () => log.push('exit refill'),
+          on: { [ActionStatus.FULL]: 'deliver' },
+        },
+        deliver: {
+          run: () => ((energy = 0), ActionStatus.EMPTY),
+          enter: () => log.push('enter deliver'),
+          on: { [ActionStatus.EMPTY]: 'refill', [ActionStatus.NO_TARGET]: 'deliver' },
+        },
+      },
+    });
+
+    const memory = {} as CreepMemory;
+    const tick = () => new SimpleCreep(createCreep({ memory })).runStateMachine(machine);
+
+    assert.strictEqual(tick(), ActionStatus.WITHDRAWING);
+    assert.strictEqual(tick(), ActionStatus.FULL);
+    const sc = new SimpleCreep(createCreep({ memory }));
+    assert.strictEqual(sc.getState(machine)?.state, 'deliver');
+    assert.strictEqual(tick(), ActionStatus.EMPTY);
+    assert.strictEqual(sc.getState(machine)?.state, 'refill');
+    assert.strictEqual(log.join(','), 'enter refill,exit refill,enter deliver,enter refill');
+  });
+});
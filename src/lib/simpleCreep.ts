@@ -1,34 +1,50 @@
-import { Role } from "./roles";
+import { RoleMemory, RoleName } from "./roles";
+import { getRoleDefinition } from "./roleRegistry";
 import { SimpleCreepBase } from "./simpleCreepBase";
 import { HarvestingMixin } from "./mixins/harvestingMixins";
 import { WorkMixin } from "./workMixins";
 import { CombatMixin } from "./mixins/combatMixins";
 import { LogisticsMixin } from "./mixins/logisticsMixins";
+import { MineralMixin } from "./mixins/mineralMixins";
 import { RoleAndMemoryMixin } from "./simpleCreepRoles";
+import { StateMachineMixin } from "./mixins/stateMachineMixins";
 export { towerDefendBase, hasHostilesInRoom } from "./simpleCreepUtilities";
+export { onTick, runTickHandlers } from "./events";
 
-const SimpleCreepComposed = CombatMixin(
-  WorkMixin(LogisticsMixin(HarvestingMixin(RoleAndMemoryMixin(SimpleCreepBase)))),
+const SimpleCreepComposed = StateMachineMixin(
+  CombatMixin(WorkMixin(MineralMixin(LogisticsMixin(HarvestingMixin(RoleAndMemoryMixin(SimpleCreepBase)))))),
 );
 
-export class SimpleCreep extends SimpleCreepComposed {}
+class SimpleCreepImpl extends SimpleCreepComposed {}
 
-const tickHandlers: Array<() => void> = [];
-
-/**
- * Регистрирует колбэк, выполняемый каждый игровой тик.
- * @param callback Функция, вызываемая при выполнении `runTickHandlers`.
- */
-export function onTick(callback: () => void): void {
-  tickHandlers.push(callback);
+/** Доступ к памяти крипа по схеме `M`: ключи и типы значений проверяет компилятор. */
+export interface TypedMemoryAccess<M extends object> {
+  /**
+   * Сохраняет значение в памяти крипа по ключу схемы.
+   * @param key Ключ памяти.
+   * @param value Значение того типа, который задан в схеме.
+   */
+  remember<K extends keyof M & string>(key: K, value: M[K]): void;
+  /**
+   * Извлекает значение из памяти крипа по ключу схемы.
+   * @param key Ключ памяти.
+   * @returns Значение или `undefined`, если его нет.
+   */
+  recall<K extends keyof M & string>(key: K): M[K] | undefined;
 }
 
 /**
- * Выполняет все зарегистрированные колбэки тиков. Вызывайте внутри `module.exports.loop`.
+ * Обёртка над крипом. Параметр `M` — схема памяти, например `SimpleCreep<RoleMemory<"hauler">>`;
+ * без него `remember`/`recall` принимают любые ключи.
  */
-export function runTickHandlers(): void {
-  tickHandlers.forEach(cb => cb());
-}
+export type SimpleCreep<M extends object = Record<string, any>> = Omit<SimpleCreepImpl, "remember" | "recall"> &
+  TypedMemoryAccess<M>;
+
+// The mixin chain types remember/recall loosely, so the typed variant is layered on through the constructor type.
+export const SimpleCreep = SimpleCreepImpl as new <M extends object = Record<string, any>>(
+  creep: Creep,
+  homeSpawnName?: string,
+) => SimpleCreep<M>;
 
 /**
  * Итерируется по всем крипам и вызывает обработчик с обёрткой `SimpleCreep`.
@@ -42,15 +58,19 @@ export function forEachCreep(handler: (creep: SimpleCreep) => void): void {
   }
 }
 
+/** Обработчики по ролям; каждый получает крипа с памятью своей роли (`RoleMemory`). */
+export type RoleHandlers = { [R in RoleName]?: (creep: SimpleCreep<RoleMemory<R>>) => void };
+
 /**
- * Рассылает крипов в обработчики по ролям на основе сохранённого `Role`.
- * @param handlers Отображение `Role` → функция-обработчик.
+ * Рассылает крипов в обработчики по ролям на основе сохранённой роли.
+ * Для ролей без обработчика в `handlers` вызывается обработчик из `registerRole`.
+ * @param handlers Отображение роль → функция-обработчик.
  */
-export function runRole(handlers: Partial<Record<Role, (creep: SimpleCreep) => void>>): void {
+export function runRole(handlers: RoleHandlers = {}): void {
   forEachCreep(sc => {
     const role = sc.getRole();
     if (role === null) return;
-    const handler = handlers[role];
+    const handler = (handlers[role] as ((creep: SimpleCreep) => void) | undefined) ?? getRoleDefinition(role)?.handler;
     if (handler) handler(sc);
   });
 }
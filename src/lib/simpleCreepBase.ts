@@ -1,15 +1,15 @@
-import { Role } from "./roles";
+import { RoleName } from "./roles";
 
-export type CreepWithTypedMemory<R extends Role> = Creep & { memory: CreepMemory & { role: R } & {[id: string]: string} };
+export type CreepWithTypedMemory<R extends RoleName> = Creep & { memory: CreepMemory & { role: R } & { [key: string]: unknown } };
 
 export type SimpleCreepArgs = [creep: Creep, homeSpawnName?: string];
 
 export class SimpleCreepBase {
-  public creep: CreepWithTypedMemory<Role>;
+  public creep: CreepWithTypedMemory<RoleName>;
   public homeSpawnName: string | undefined;
 
   constructor(creep: Creep, homeSpawnName?: string) {
-    this.creep = creep as CreepWithTypedMemory<Role>;
+    this.creep = creep as CreepWithTypedMemory<RoleName>;
     this.homeSpawnName = homeSpawnName;
   }
 }
@@ -1,4 +1,4 @@
-import { Role } from "./roles";
+import { RoleName } from "./roles";
 import { SimpleCreepBase, SimpleCreepConstructor } from "./simpleCreepBase";
 
 export function RoleAndMemoryMixin<TBase extends SimpleCreepConstructor<SimpleCreepBase>>(Base: TBase) {
@@ -11,8 +11,8 @@ export function RoleAndMemoryMixin<TBase extends SimpleCreepConstructor<SimpleCr
      * Читает сохранённую роль крипа из памяти.
      * @returns Значение роли или `null`, если не задано.
      */
-    getRole(): Role | null {
-      const r = this.creep.memory.role as Role | undefined;
+    getRole(): RoleName | null {
+      const r = this.creep.memory.role as RoleName | undefined;
       return r ?? null;
     }
 
@@ -20,7 +20,7 @@ export function RoleAndMemoryMixin<TBase extends SimpleCreepConstructor<SimpleCr
      * Проверяет, соответствует ли крип указанной роли.
      * @param role Целевая роль для сравнения.
      */
-    is(role: Role): boolean {
+    is(role: RoleName): boolean {
       return this.getRole() === role;
     }
 
@@ -28,7 +28,7 @@ export function RoleAndMemoryMixin<TBase extends SimpleCreepConstructor<SimpleCr
      * Записывает новую роль в память крипа.
      * @param role Роль для назначения.
      */
-    setRole(role: Role): void {
+    setRole(role: RoleName): void {
       this.creep.memory.role = role;
     }
 
@@ -38,7 +38,7 @@ export function RoleAndMemoryMixin<TBase extends SimpleCreepConstructor<SimpleCr
      * @param value Любое сериализуемое значение.
      */
     remember<T>(key: string, value: T): void {
-      (this.creep.memory as any)[key] = value as any;
+      this.creep.memory[key] = value;
     }
 
     /**
@@ -47,7 +47,7 @@ export function RoleAndMemoryMixin<TBase extends SimpleCreepConstructor<SimpleCr
      * @returns Сохранённое значение или `undefined`, если его нет.
      */
     recall<T>(key: string): T | undefined {
-      return (this.creep.memory as any)[key] as T | undefined;
+      return this.creep.memory[key] as T | undefined;
     }
 
     /**
@@ -1,7 +1,12 @@
 import { ActionStatus } from "./status";
+import { findRepairTarget } from "./repairPolicy";
+
+/** Башня тратит энергию на ремонт только того, что ниже этой доли цели политики ремонта (или вот-вот распадётся). */
+const TOWER_REPAIR_RATIO = 0.5;
 
 /**
  * Простая логика башни: атаковать врагов, иначе чинить критично повреждённые постройки, иначе лечить союзников.
+ * Что чинить, решает та же политика ремонта, что и у крипов (`findRepairTarget`), но только ниже половины цели.
  * @param tower Башня, которой управляем.
  * @returns Статус действия, описывающий выбранный шаг.
  */
@@ -25,14 +30,11 @@ export function towerDefendBase(tower: StructureTower): ActionStatus {
   }
 
   // Repair critically damaged structures
-  const critical = room.find(FIND_STRUCTURES, { filter: s => s.hits < s.hitsMax * 0.5 }) as Structure[];
-  if (critical.length > 0) {
-    const target = tower.pos.findClosestByRange(critical) as Structure | null;
-    if (target) {
-      const res = tower.repair(target);
-      if (res === OK) return ActionStatus.REPAIR;
-      return ActionStatus.ERROR;
-    }
+  const critical = findRepairTarget(room, tower.pos, { ratio: TOWER_REPAIR_RATIO });
+  if (critical) {
+    const res = tower.repair(critical);
+    if (res === OK) return ActionStatus.REPAIR;
+    return ActionStatus.ERROR;
   }
 
   // Heal injured friendly creeps
@@ -0,0 +1,76 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert = require('node:assert');
+import { Role } from './roles';
+import { SimpleCreep } from './simpleCreep';
+import { assignSource, getAssignedWork, getHarvestSpots, getRequiredWork } from './sourceAssignment';
+import { createCreep, createPosition, createRoom, createStore, setupScreepsGlobals } from './__tests__/screeps-mock';
+
+describe('source assignment', () => {
+  let room: Room;
+  let a: Source;
+  let b: Source;
+  let container: StructureContainer;
+  const open = new Set(['9,10', '11,11', '29,30', '31,30', '30,31']);
+  const work = (n: number) => new Array(n).fill({ type: WORK, hits: 100 }) as BodyPartDefinition[];
+  const miner = (name: string, parts = 3) => {
+    const creep = createCreep({ name, room, body: work(parts), memory: { role: Role.Harvester } as CreepMemory });
+    Game.creeps[name] = creep;
+    return creep;
+  };
+
+  beforeEach(() => {
+    setupScreepsGlobals();
+    (Game as any).map = { getRoomTerrain: () => ({ get: (x: number, y: number) => (open.has(`${x},${y}`) ? 0 : 1) }) };
+    container = { id: 'box', structureType: STRUCTURE_CONTAINER, pos: createPosition(31, 30) } as StructureContainer;
+    const structures = [container] as Structure[];
+    room = createRoom({
+      find: ((type: FindConstant, opts?: { filter?: (o: any) => boolean }) => {
+        const all: any[] = type === FIND_SOURCES ? [a, b] : type === FIND_STRUCTURES ? structures : [];
+        return opts?.filter ? all.filter(opts.filter) : all;
+      }) as Room['find'],
+    });
+    a = { id: 'a', pos: createPosition(10, 10), energyCapacity: 3000, room } as unknown as Source;
+    b = { id: 'b', pos: createPosition(30, 30), energyCapacity: 3000, room } as unknown as Source;
+    (Game as any).getObjectById = (id: string) => ({ a, b, box: container } as Record<string, unknown>)[id] ?? null;
+  });
+
+  test('miners spread across sources until each has enough WORK', () => {
+    assert.strictEqual(getRequiredWork(a), 5);
+    assert.strictEqual(getHarvestSpots(a).length, 2);
+
+    assert.strictEqual(assignSource(miner('m1'))?.sourceId, 'a');
+    const second = assignSource(miner('m2'));
+    assert.strictEqual(second?.sourceId, 'b');
+    assert.strictEqual(`${second?.x},${second?.y}`, '31,30');
+    assert.strictEqual(assignSource(miner('m3'))?.sourceId, 'a');
+    assert.strictEqual(assignSource(miner('m4'))?.sourceId, 'b');
+    assert.strictEqual(assignSource(miner('m5')), null);
+    assert.strictEqual(getAssignedWork(a), 6);
+
+    delete Game.creeps['m1'];
+    const replacement = assignSource(miner('m6'));
+    assert.strictEqual(replacement?.sourceId, 'a');
+    assert.strictEqual(assignSource(Game.creeps['m6'] as Creep), replacement);
+  });
+
+  test('a pinned miner next to its container drops the harvest into it', () => {
+    const transfers: string[] = [];
+    const creep = createCreep({
+      name: 'miner',
+      room,
+      pos: createPosition(30, 31),
+      body: work(5),
+      store: createStore({ used: 45, capacity: 50 }),
+      memory: { role: Role.Harvester } as CreepMemory,
+      transfer: ((target: Structure) => (transfers.push(target.id), OK)) as Creep['transfer'],
+    });
+    Game.creeps['miner'] = creep;
+    (creep.memory as any).mining = { sourceId: 'b', x: 30, y: 31, roomName: 'W0N0' };
+    (Memory as any).__mining = { b: { miner: { x: 30, y: 31, work: 5 } } };
+
+    const sc = new SimpleCreep(creep);
+    assert.strictEqual(sc.findClosestTarget('source'), b);
+    assert.strictEqual(sc.mineAssignedSource(), 'HARVESTING');
+    assert.strictEqual(transfers.join(','), 'box');
+  });
+});
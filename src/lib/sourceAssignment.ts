@@ -0,0 +1,140 @@
+import { isWalkableTile } from "./costMatrix";
+
+/** Закрепление майнера за источником и клеткой; хранится в `memory.mining`. */
+export interface MiningAssignment {
+  sourceId: Id<Source>;
+  x: number;
+  y: number;
+  roomName: string;
+}
+
+interface ReservedSpot {
+  x: number;
+  y: number;
+  work: number;
+}
+
+/** `Memory.__mining`: id источника → имя майнера → занятая клетка и число WORK. */
+type MiningStore = Record<string, Record<string, ReservedSpot>>;
+
+function getStore(): MiningStore {
+  if (!(Memory as any).__mining) (Memory as any).__mining = {};
+  return (Memory as any).__mining as MiningStore;
+}
+
+// Dead miners are pruned lazily, whenever a source's reservations are read.
+function getReservations(sourceId: string): Record<string, ReservedSpot> {
+  const store = getStore();
+  const reservations = (store[sourceId] ??= {});
+  for (const name of Object.keys(reservations)) {
+    if (!Game.creeps[name]) delete reservations[name];
+  }
+  return reservations;
+}
+
+function countWork(creep: Creep): number {
+  return (creep.body ?? []).filter(p => p.type === WORK).length;
+}
+
+/**
+ * Сколько WORK нужно источнику, чтобы выкапывать его полностью за цикл восстановления.
+ * @param source Источник.
+ * @returns 5 для обычного источника на 3000 энергии.
+ */
+export function getRequiredWork(source: Source): number {
+  return Math.ceil(source.energyCapacity / ENERGY_REGEN_TIME / HARVEST_POWER);
+}
+
+/**
+ * Проходимые клетки вокруг источника, с которых можно добывать.
+ * @param source Источник.
+ * @returns Позиции клеток.
+ */
+export function getHarvestSpots(source: Source): RoomPosition[] {
+  const spots: RoomPosition[] = [];
+  const { x, y, roomName } = source.pos;
+  for (let dx = -1; dx <= 1; dx++) {
+    for (let dy = -1; dy <= 1; dy++) {
+      const pos = { x: x + dx, y: y + dy, roomName };
+      if ((dx === 0 && dy === 0) || pos.x < 1 || pos.x > 48 || pos.y < 1 || pos.y > 48) continue;
+      if (isWalkableTile(pos)) spots.push(new RoomPosition(pos.x, pos.y, roomName));
+    }
+  }
+  return spots;
+}
+
+/**
+ * Контейнер рядом с источником, в который сбрасывает добычу закреплённый майнер.
+ * @param source Источник.
+ * @returns Контейнер или `null`.
+ */
+export function getSourceContainer(source: Source): StructureContainer | null {
+  const containers = source.room.find(FIND_STRUCTURES, {
+    filter: s => s.structureType === STRUCTURE_CONTAINER && s.pos.inRangeTo(source.pos, 1),
+  }) as StructureContainer[];
+  return containers[0] ?? null;
+}
+
+/**
+ * Сколько WORK уже закреплено за источником (умершие майнеры не считаются).
+ * @param source Источник.
+ */
+export function getAssignedWork(source: Source): number {
+  const reservations = getReservations(source.id);
+  return Object.keys(reservations).reduce((sum, name) => sum + (reservations[name]?.work ?? 0), 0);
+}
+
+/**
+ * Текущее закрепление крипа, если источник всё ещё держит его клетку.
+ * @param creep Майнер.
+ * @returns Закрепление или `null`.
+ */
+export function getMiningAssignment(creep: Creep): MiningAssignment | null {
+  const assignment = (creep.memory as { mining?: MiningAssignment }).mining;
+  if (!assignment) return null;
+  if (!getReservations(assignment.sourceId)[creep.name]) return null;
+  return assignment;
+}
+
+/**
+ * Закрепляет крипа за источником, которому больше всего не хватает WORK, и резервирует клетку —
+ * в первую очередь клетку контейнера. Если крип уже закреплён, возвращает прежнее закрепление.
+ * @param creep Майнер.
+ * @param room Комната с источниками (по умолчанию — текущая комната крипа).
+ * @returns Закрепление или `null`, если все источники выкапываются полностью или клеток нет.
+ */
+export function assignSource(creep: Creep, room: Room = creep.room): MiningAssignment | null {
+  const existing = getMiningAssignment(creep);
+  if (existing) return existing;
+
+  const candidates = (room.find(FIND_SOURCES) as Source[])
+    .map(source => ({ source, missing: getRequiredWork(source) - getAssignedWork(source) }))
+    .filter(c => c.missing > 0)
+    .sort((a, b) => b.missing - a.missing);
+
+  for (const { source } of candidates) {
+    const reservations = getReservations(source.id);
+    const taken = Object.keys(reservations).map(name => reservations[name] as ReservedSpot);
+    const isFree = (pos: { x: number; y: number }) => !taken.some(t => t.x === pos.x && t.y === pos.y);
+    const container = getSourceContainer(source);
+    const spots = getHarvestSpots(source);
+    const spot = container && isFree(container.pos) ? container.pos : spots.find(isFree);
+    if (!spot) continue;
+
+    reservations[creep.name] = { x: spot.x, y: spot.y, work: countWork(creep) };
+    const assignment: MiningAssignment = { sourceId: source.id, x: spot.x, y: spot.y, roomName: room.name };
+    (creep.memory as { mining?: MiningAssignment }).mining = assignment;
+    return assignment;
+  }
+  return null;
+}
+
+/**
+ * Снимает закрепление крипа и освобождает его клетку.
+ * @param creep Майнер.
+ */
+export function releaseSource(creep: Creep): void {
+  const memory = creep.memory as { mining?: MiningAssignment };
+  if (memory.mining) delete getStore()[memory.mining.sourceId]?.[creep.name];
+  delete memory.mining;
+}
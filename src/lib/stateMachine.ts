@@ -0,0 +1,38 @@
+import { ActionStatus } from "./status";
+import type { SimpleCreep } from "./simpleCreep";
+
+/** Одно состояние машины: что делать каждый тик и куда переходить по результату. */
+export interface CreepState<S extends string> {
+  /** Действие состояния; его `ActionStatus` решает, будет ли переход. */
+  run: (creep: SimpleCreep) => ActionStatus;
+  /** Вызывается при входе в состояние. */
+  enter?: (creep: SimpleCreep) => void;
+  /** Вызывается при выходе из состояния. */
+  exit?: (creep: SimpleCreep) => void;
+  /** Переходы: статус → следующее состояние, например `{ [ActionStatus.EMPTY]: "refill" }`. */
+  on?: Partial<Record<ActionStatus, S>>;
+}
+
+/** Описание машины состояний крипа. */
+export interface StateMachine<S extends string = string> {
+  /** Имя машины: под ним состояние хранится в памяти крипа. */
+  name: string;
+  initial: S;
+  states: Record<S, CreepState<S>>;
+}
+
+/** Сохранённое в памяти крипа состояние машины. */
+export interface StoredState {
+  state: string;
+  /** Тик, в который крип вошёл в состояние. */
+  since: number;
+}
+
+/**
+ * Объявляет машину состояний с проверкой имён состояний компилятором.
+ * @param machine Имя, начальное состояние и описание состояний.
+ * @returns Та же машина, готовая для `creep.runStateMachine`.
+ */
+export function defineStateMachine<S extends string>(machine: StateMachine<S>): StateMachine<S> {
+  return machine;
+}
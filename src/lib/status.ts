@@ -12,12 +12,14 @@ export enum ActionStatus {
   ERROR = "ERROR",
   ALREADY_THERE = "ALREADY_THERE",
   NO_PATH = "NO_PATH",
+  STUCK = "STUCK",
   ALREADY_NEAR = "ALREADY_NEAR",
   SAFE = "SAFE",
   RETREATING = "RETREATING",
   UPGRADING = "UPGRADING",
   BUILDING = "BUILDING",
   REPAIRING = "REPAIRING",
+  RESERVING = "RESERVING",
   NO_SITE = "NO_SITE",
   ATTACKING = "ATTACKING",
   HEALING = "HEALING",
@@ -26,4 +28,6 @@ export enum ActionStatus {
   REPAIR = "REPAIR",
   HEAL = "HEAL",
   IDLE = "IDLE",
+  COOLDOWN = "COOLDOWN",
+  DEPLETED = "DEPLETED",
 }
@@ -0,0 +1,105 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert = require('node:assert');
+import { runTrading, setPriceLimits, setTerminalTargets } from './trading';
+import { createMarket, createTerminal, setupScreepsGlobals } from './__tests__/screeps-mock';
+
+describe('trading', () => {
+  beforeEach(() => setupScreepsGlobals());
+
+  const useTerminals = (...terminals: StructureTerminal[]) => {
+    (Game as any).rooms = {};
+    for (const t of terminals) (Game as any).rooms[t.room.name] = t.room;
+  };
+
+  test('surplus is sent to our own rooms that are short before anything is traded', () => {
+    const rich = createTerminal('W1N1', { energy: 30000, H: 10000 });
+    const poor = createTerminal('W3N1', { energy: 30000 });
+    useTerminals(rich, poor);
+    Game.market = createMarket();
+
+    const actions = runTrading();
+    assert.strictEqual(rich.sent.join(';'), 'H 3000 W3N1');
+    assert.strictEqual(actions[0]?.energyCost, Game.market.calcTransactionCost(3000, 'W1N1', 'W3N1'));
+    // Trading runs every 10 ticks unless forced.
+    Game.time = 5;
+    assert.strictEqual(runTrading().length, 0);
+  });
+
+  test('excess is sold to the best order after transfer costs and missing resources are bought under the limit', () => {
+    const seller = createTerminal('W1N1', { energy: 30000, O: 9000 });
+    const buyer = createTerminal('W5N5', { energy: 30000 });
+    useTerminals(seller, buyer);
+    setTerminalTargets('W5N5', { X: 2000, O: 0 });
+    setPriceLimits(RESOURCE_ENERGY, { minSell: 0.5 });
+    setPriceLimits('O' as ResourceConstant, { minSell: 0.8 });
+    const market = createMarket({
+      credits: 1000,
+      averages: { X: 3 },
+      orders: [
+        { id: 'far', type: ORDER_BUY, resourceType: 'O', price: 1, roomName: 'W9N1' },
+        { id: 'near', type: ORDER_BUY, resourceType: 'O', price: 0.95, roomName: 'W2N1' },
+        { id: 'cheap', type: ORDER_SELL, resourceType: 'X', price: 2, roomName: 'W6N5' },
+        { id: 'pricey', type: ORDER_SELL, resourceType: 'X', price: 4, roomName: 'W6N5' },
+      ],
+    });
+    Game.market = market;
+
+    const actions = runTrading(true);
+    assert.strictEqual(actions.map(a => `${a.type} ${a.resource} ${a.amount}`).join(';'), 'sell O 1000;buy X 500');
+    assert.strictEqual(market.deals.map(d => `${d.orderId} ${d.amount} ${d.roomName}`).join(';'), 'near 1000 W1N1;cheap 500 W5N5');
+  });
+
+  test('a room that is being sent a resource does not also buy it', () => {
+    const rich = createTerminal('W1N1', { energy: 30000, X: 10000 });
+    const poor = createTerminal('W2N1', { energy: 30000 });
+    useTerminals(rich, poor);
+    setTerminalTargets('W2N1', { X: 3000 });
+    Game.market = createMarket({
+      credits: 10000,
+      averages: { X: 3 },
+      orders: [{ id: 'cheap', type: ORDER_SELL, resourceType: 'X', price: 2, roomName: 'W3N1' }],
+    });
+
+    const actions = runTrading(true);
+    assert.strictEqual(actions.map(a => `${a.type} ${a.roomName} ${a.resource} ${a.amount}`).join(';'), 'send W1N1 X 3000');
+  });
+
+  test('only minerals are sold unless a resource opts in, and transfer energy is priced from history', () => {
+    const terminal = createTerminal('W1N1', { energy: 50000, O: 9000 });
+    useTerminals(terminal);
+    const market = createMarket({
+      averages: { energy: 0.5, O: 1 },
+      orders: [
+        { id: 'energy', type: ORDER_BUY, resourceType: 'energy', price: 1, roomName: 'W2N1' },
+        { id: 'far', type: ORDER_BUY, resourceType: 'O', price: 1, roomName: 'W9N1' },
+        { id: 'near', type: ORDER_BUY, resourceType: 'O', price: 0.95, roomName: 'W2N1' },
+      ],
+    });
+    Game.market = market;
+
+    runTrading(true);
+    assert.strictEqual(market.deals.map(d => d.orderId).join(';'), 'near');
+
+    setPriceLimits(RESOURCE_ENERGY, { sell: true });
+    setPriceLimits('O' as ResourceConstant, { sell: false });
+    runTrading(true);
+    assert.strictEqual(market.deals.map(d => d.orderId).join(';'), 'near;energy');
+  });
+
+  test('buys in one run never commit more credits than the account has', () => {
+    const first = createTerminal('W1N1', { energy: 30000 });
+    const second = createTerminal('W2N1', { energy: 30000 });
+    useTerminals(first, second);
+    setTerminalTargets('W1N1', { X: 2000 });
+    setTerminalTargets('W2N1', { X: 2000 });
+    const market = createMarket({
+      credits: 1000,
+      averages: { X: 3 },
+      orders: [{ id: 'cheap', type: ORDER_SELL, resourceType: 'X', price: 2, roomName: 'W3N1' }],
+    });
+    Game.market = market;
+
+    runTrading(true);
+    assert.strictEqual(market.deals.map(d => `${d.roomName} ${d.amount}`).join(';'), 'W1N1 500');
+  });
+});
@@ -0,0 +1,266 @@
+/** Желаемый запас ресурсов в терминале комнаты. */
+export type TerminalTargets = Partial<Record<ResourceConstant, number>>;
+
+/** Ценовые пороги ресурса: ниже `minSell` не продаём, дороже `maxBuy` не покупаем. */
+export interface PriceLimits {
+  minSell?: number;
+  maxBuy?: number;
+  /** Продавать ли излишки на рынке; по умолчанию продаются только базовые минералы. */
+  sell?: boolean;
+}
+
+/** Действие, выполненное `runTrading`. */
+export interface TradeAction {
+  type: "send" | "sell" | "buy";
+  roomName: string;
+  resource: ResourceConstant;
+  amount: number;
+  /** Комната-получатель для `send`. */
+  to?: string;
+  orderId?: string;
+  price?: number;
+  /** Энергия, списанная с терминала за передачу. */
+  energyCost: number;
+}
+
+interface TradingMemory {
+  targets: Record<string, TerminalTargets>;
+  prices: Partial<Record<ResourceConstant, PriceLimits>>;
+  lastRun?: number;
+}
+
+/** Запас по умолчанию для ресурсов без явной цели: энергия нужна терминалу на передачи. */
+const DEFAULT_ENERGY_TARGET = 20000;
+const DEFAULT_TARGET = 3000;
+/** Излишком считается то, что больше цели на эту величину: иначе ресурс гоняется туда-обратно. */
+const SURPLUS_MARGIN = 1000;
+/** Меньше этого не отправляем и не торгуем: комиссия и перезарядка терминала того не стоят. */
+const MIN_TRADE_AMOUNT = 100;
+/** Без заданных порогов продаём не дешевле и покупаем не дороже средней цены за день с этим запасом. */
+const DEFAULT_SELL_RATIO = 0.9;
+const DEFAULT_BUY_RATIO = 1.1;
+/** `Game.market.deal` можно вызвать не больше 10 раз за тик. */
+const MAX_DEALS_PER_TICK = 10;
+/** Торговля запускается раз в столько тиков. */
+const TRADE_INTERVAL = 10;
+/** Базовые минералы — единственное, что продаётся без явного `sell: true`. */
+const BASE_MINERALS: string[] = ["H", "O", "U", "L", "K", "Z", "X"];
+
+function getStore(): TradingMemory {
+  if (!(Memory as any).__trading) (Memory as any).__trading = { targets: {}, prices: {} };
+  return (Memory as any).__trading as TradingMemory;
+}
+
+/**
+ * Задаёт желаемый запас ресурсов в терминале комнаты. Ресурсы с явной целью докупаются, если их не хватает.
+ * @param roomName Комната с терминалом.
+ * @param targets Отображение ресурс → количество; новые значения сливаются с прежними.
+ */
+export function setTerminalTargets(roomName: string, targets: TerminalTargets): void {
+  const store = getStore();
+  store.targets[roomName] = { ...store.targets[roomName], ...targets };
+}
+
+/**
+ * Желаемый запас ресурса: заданный через `setTerminalTargets`, иначе 20000 для энергии и 3000 для остального.
+ * @param roomName Комната с терминалом.
+ * @param resource Ресурс.
+ */
+export function getTerminalTarget(roomName: string, resource: ResourceConstant): number {
+  const explicit = getStore().targets[roomName]?.[resource];
+  if (explicit !== undefined) return explicit;
+  return resource === RESOURCE_ENERGY ? DEFAULT_ENERGY_TARGET : DEFAULT_TARGET;
+}
+
+/**
+ * Задаёт ценовые пороги ресурса. Порог `minSell` энергии также служит ценой энергии,
+ * которую тратит терминал на передачу, при сравнении ордеров.
+ * @param resource Ресурс.
+ * @param limits Минимальная цена продажи, максимальная цена покупки и разрешение продавать излишки.
+ */
+export function setPriceLimits(resource: ResourceConstant, limits: PriceLimits): void {
+  const prices = getStore().prices;
+  prices[resource] = { ...prices[resource], ...limits };
+}
+
+/**
+ * Ценовые пороги ресурса: заданные через `setPriceLimits`, иначе 90% / 110% средней цены за последний день.
+ * @param resource Ресурс.
+ * @returns Пороги; пустой объект, если порогов нет и истории цен тоже.
+ */
+export function getPriceLimits(resource: ResourceConstant): PriceLimits {
+  const limits: PriceLimits = { ...getStore().prices[resource] };
+  const history = Game.market.getHistory(resource);
+  const average = history[history.length - 1]?.avgPrice;
+  if (average !== undefined) {
+    limits.minSell ??= average * DEFAULT_SELL_RATIO;
+    limits.maxBuy ??= average * DEFAULT_BUY_RATIO;
+  }
+  return limits;
+}
+
+function getTerminals(): StructureTerminal[] {
+  const terminals: StructureTerminal[] = [];
+  for (const roomName in Game.rooms ?? {}) {
+    const terminal = Game.rooms[roomName]?.terminal;
+    if (terminal && terminal.my) terminals.push(terminal);
+  }
+  return terminals;
+}
+
+function amountOf(terminal: StructureTerminal, resource: ResourceConstant): number {
+  return terminal.store.getUsedCapacity(resource) ?? 0;
+}
+
+function resourcesOf(terminal: StructureTerminal): ResourceConstant[] {
+  const store = terminal.store as unknown as Record<string, unknown>;
+  const stored = Object.keys(store).filter(r => typeof store[r] === "number" && (store[r] as number) > 0);
+  const targeted = Object.keys(getStore().targets[terminal.room.name] ?? {});
+  return stored.concat(targeted.filter(r => !stored.includes(r))) as ResourceConstant[];
+}
+
+/** Сколько ресурса сверх цели можно отдать (с запасом `SURPLUS_MARGIN`). */
+function surplusOf(terminal: StructureTerminal, resource: ResourceConstant): number {
+  return amountOf(terminal, resource) - getTerminalTarget(terminal.room.name, resource) - SURPLUS_MARGIN;
+}
+
+/** Сколько ресурса не хватает до цели. */
+function deficitOf(terminal: StructureTerminal, resource: ResourceConstant): number {
+  return getTerminalTarget(terminal.room.name, resource) - amountOf(terminal, resource);
+}
+
+/**
+ * Наибольшее количество, которое терминал может отправить или купить так, чтобы хватило энергии на передачу.
+ * Стоимость передачи растёт линейно с количеством, поэтому достаточно посчитать её для одной порции.
+ */
+function affordable(terminal: StructureTerminal, resource: ResourceConstant, amount: number, toRoom: string): number {
+  const energy = amountOf(terminal, RESOURCE_ENERGY);
+  const perUnit = Game.market.calcTransactionCost(1000, terminal.room.name, toRoom) / 1000;
+  // Energy that is itself being sent must fit together with its transaction cost.
+  const max = resource === RESOURCE_ENERGY ? energy / (1 + perUnit) : energy / Math.max(perUnit, 1e-9);
+  return Math.floor(Math.min(amount, max));
+}
+
+function energyPrice(): number {
+  return getPriceLimits(RESOURCE_ENERGY).minSell ?? 0;
+}
+
+function isSellable(resource: ResourceConstant): boolean {
+  return getStore().prices[resource]?.sell ?? BASE_MINERALS.includes(resource);
+}
+
+/** Сколько ресурса уже отправлено в комнату в этом запуске: ключ `комната:ресурс`. */
+type Incoming = Map<string, number>;
+
+function incomingOf(incoming: Incoming, terminal: StructureTerminal, resource: ResourceConstant): number {
+  return incoming.get(`${terminal.room.name}:${resource}`) ?? 0;
+}
+
+function balance(terminals: StructureTerminal[], used: Set<string>, incoming: Incoming): TradeAction[] {
+  const actions: TradeAction[] = [];
+  const resources = new Set<ResourceConstant>();
+  terminals.forEach(t => resourcesOf(t).forEach(r => resources.add(r)));
+
+  resources.forEach(resource => {
+    for (const receiver of terminals) {
+      const deficit = deficitOf(receiver, resource) - incomingOf(incoming, receiver, resource);
+      if (deficit < MIN_TRADE_AMOUNT) continue;
+      const sender = terminals
+        .filter(t => t !== receiver && !used.has(t.id) && t.cooldown === 0)
+        .sort((a, b) => surplusOf(b, resource) - surplusOf(a, resource))[0];
+      if (!sender || surplusOf(sender, resource) < MIN_TRADE_AMOUNT) continue;
+
+      const to = receiver.room.name;
+      const amount = affordable(sender, resource, Math.min(deficit, surplusOf(sender, resource)), to);
+      if (amount < MIN_TRADE_AMOUNT) continue;
+      const energyCost = Game.market.calcTransactionCost(amount, sender.room.name, to);
+      if (sender.send(resource, amount, to) !== OK) continue;
+      used.add(sender.id);
+      incoming.set(`${to}:${resource}`, incomingOf(incoming, receiver, resource) + amount);
+      actions.push({ type: "send", roomName: sender.room.name, resource, amount, to, energyCost });
+    }
+  });
+  return actions;
+}
+
+// Price per unit after paying for the transfer energy: lower when selling, higher when buying.
+function effectivePrice(order: Order, roomName: string, amount: number, selling: boolean): number {
+  const cost = order.roomName ? Game.market.calcTransactionCost(amount, roomName, order.roomName) : 0;
+  const perUnit = (cost * energyPrice()) / amount;
+  return selling ? order.price - perUnit : order.price + perUnit;
+}
+
+function trade(
+  terminal: StructureTerminal,
+  resource: ResourceConstant,
+  selling: boolean,
+  budget: number,
+  credits: number,
+): TradeAction | null {
+  const roomName = terminal.room.name;
+  const limits = getPriceLimits(resource);
+  const limit = selling ? limits.minSell : limits.maxBuy;
+  if (limit === undefined) return null;
+
+  const orders = Game.market.getAllOrders({ type: selling ? ORDER_BUY : ORDER_SELL, resourceType: resource });
+  const candidates = orders
+    .map(order => {
+      const amount = Math.min(budget, order.remainingAmount ?? order.amount);
+      return { order, amount, price: amount > 0 ? effectivePrice(order, roomName, amount, selling) : NaN };
+    })
+    .filter(c => c.amount >= MIN_TRADE_AMOUNT && (selling ? c.price >= limit : c.price <= limit))
+    .sort((a, b) => (selling ? b.price - a.price : a.price - b.price));
+
+  for (const { order, amount: wanted } of candidates) {
+    let amount = order.roomName ? affordable(terminal, resource, wanted, order.roomName) : wanted;
+    if (!selling) amount = Math.min(amount, Math.floor(credits / order.price));
+    if (amount < MIN_TRADE_AMOUNT) continue;
+    const energyCost = order.roomName ? Game.market.calcTransactionCost(amount, roomName, order.roomName) : 0;
+    if (Game.market.deal(order.id, amount, roomName) !== OK) continue;
+    return { type: selling ? "sell" : "buy", roomName, resource, amount, orderId: order.id, price: order.price, energyCost };
+  }
+  return null;
+}
+
+/**
+ * Торговля терминалами своих комнат, раз в 10 тиков:
+ * 1. излишки ресурса (больше цели на 1000) отправляются через `terminal.send` комнатам, где его не хватает;
+ * 2. оставшиеся излишки базовых минералов и ресурсов с `sell: true` продаются в ордера на покупку не дешевле `minSell`;
+ * 3. ресурсы с явной целью, которых не хватает с учётом уже отправленного, покупаются не дороже `maxBuy`.
+ * Ордера сравниваются по цене с учётом энергии на передачу; терминалу всегда должно хватать энергии на комиссию.
+ * Каждый терминал делает не больше одной операции за тик; все покупки запуска вместе не тратят больше кредитов, чем есть.
+ * @param force Запустить, даже если с прошлого запуска прошло меньше 10 тиков.
+ * @returns Выполненные действия.
+ */
+export function runTrading(force = false): TradeAction[] {
+  const store = getStore();
+  if (!force && store.lastRun !== undefined && Game.time - store.lastRun < TRADE_INTERVAL) return [];
+  store.lastRun = Game.time;
+
+  const terminals = getTerminals();
+  const used = new Set<string>();
+  const incoming: Incoming = new Map();
+  const actions = balance(terminals, used, incoming);
+  // Deals settle after the tick, so credits committed by earlier buys are tracked here.
+  let credits = Game.market.credits;
+
+  for (const terminal of terminals) {
+    if (actions.filter(a => a.type !== "send").length >= MAX_DEALS_PER_TICK) break;
+    if (used.has(terminal.id) || terminal.cooldown > 0) continue;
+    const explicit = store.targets[terminal.room.name] ?? {};
+
+    let action: TradeAction | null = null;
+    for (const resource of resourcesOf(terminal)) {
+      const surplus = surplusOf(terminal, resource);
+      const deficit = deficitOf(terminal, resource) - incomingOf(incoming, terminal, resource);
+      if (surplus >= MIN_TRADE_AMOUNT && isSellable(resource)) action = trade(terminal, resource, true, surplus, credits);
+      else if (deficit >= MIN_TRADE_AMOUNT && explicit[resource] !== undefined) action = trade(terminal, resource, false, deficit, credits);
+      if (action) break;
+    }
+    if (!action) continue;
+    if (action.type === "buy") credits -= action.amount * (action.price ?? 0);
+    used.add(terminal.id);
+    actions.push(action);
+  }
+  return actions;
+}
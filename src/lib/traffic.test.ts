@@ -0,0 +1,45 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert = require('node:assert');
+import { registerMove, registerWork, resolveTraffic } from './traffic';
+import { createCreep, createPosition, setupScreepsGlobals } from './__tests__/screeps-mock';
+
+describe('traffic', () => {
+  beforeEach(() => {
+    setupScreepsGlobals();
+    // Every neighbouring tile is a wall, so only swaps are possible.
+    (Game as any).map = { getRoomTerrain: () => ({ get: () => 1 }) };
+  });
+
+  test('an idle creep on the next tile swaps with the mover', () => {
+    const moves: string[] = [];
+    const mover = createCreep({ name: 'mover', pos: createPosition(10, 10) });
+    const idle = createCreep({ name: 'idle', pos: createPosition(10, 11), move: () => (moves.push('idle'), OK) });
+    const bystander = createCreep({ name: 'bystander', pos: createPosition(20, 20), move: () => (moves.push('bystander'), OK) });
+    Game.creeps = { mover, idle, bystander };
+
+    registerMove(mover, idle.pos);
+    assert.strictEqual(resolveTraffic().join(','), 'idle');
+    assert.strictEqual(moves.join(','), 'idle');
+    assert.strictEqual(resolveTraffic().length, 0);
+  });
+
+  test('creeps already moving and working creeps that would leave range are not shoved', () => {
+    let shoved = 0;
+    const mover = createCreep({ name: 'mover', pos: createPosition(10, 10) });
+    const follower = createCreep({ name: 'follower', pos: createPosition(10, 9) });
+    const walker = createCreep({ name: 'walker', pos: createPosition(10, 11), move: () => (shoved++, OK) });
+    const miner = createCreep({ name: 'miner', pos: createPosition(11, 10), move: () => (shoved++, OK) });
+    Game.creeps = { mover, follower, walker, miner };
+
+    registerMove(walker, createPosition(10, 12));
+    registerMove(follower, walker.pos);
+    registerWork(miner, createPosition(12, 10), 1);
+    registerMove(mover, miner.pos);
+    assert.strictEqual(resolveTraffic().length, 0);
+
+    registerWork(miner, createPosition(12, 10), 3);
+    registerMove(mover, miner.pos);
+    assert.strictEqual(resolveTraffic().join(','), 'miner');
+    assert.strictEqual(shoved, 1);
+  });
+});
@@ -0,0 +1,112 @@
+import type { PathStep } from "./movement";
+import { isWalkableTile } from "./costMatrix";
+
+interface MoveIntent {
+  creep: Creep;
+  to: PathStep;
+}
+
+/** Клетка, в радиусе которой крип работает в этом тике. */
+interface WorkAnchor {
+  pos: PathStep;
+  range: number;
+}
+
+// Intents only make sense within one tick: both maps are dropped as soon as Game.time moves on.
+const intents = new Map<string, MoveIntent>();
+const anchors = new Map<string, WorkAnchor>();
+let intentTick = -1;
+
+function currentTick(): void {
+  if (intentTick === Game.time) return;
+  intents.clear();
+  anchors.clear();
+  intentTick = Game.time;
+}
+
+function tileKey(pos: PathStep): string {
+  return `${pos.x},${pos.y},${pos.roomName}`;
+}
+
+function range(a: PathStep, b: PathStep): number {
+  if (a.roomName !== b.roomName) return Infinity;
+  return Math.max(Math.abs(a.x - b.x), Math.abs(a.y - b.y));
+}
+
+/**
+ * Запоминает, куда крип собирается шагнуть в этом тике. Вызывается методами движения `SimpleCreep`.
+ * @param creep Крип, который уже вызвал `move`.
+ * @param to Клетка, на которую он шагает.
+ */
+export function registerMove(creep: Creep, to: PathStep): void {
+  currentTick();
+  intents.set(creep.name, { creep, to });
+}
+
+/**
+ * Запоминает, что крип работает с целью на дистанции `range`: его можно подвинуть только туда, где цель останется в радиусе.
+ * @param creep Работающий крип.
+ * @param target Позиция цели работы.
+ * @param range Дальность действия (1 для добычи, 3 для стройки, ремонта и апгрейда).
+ */
+export function registerWork(creep: Creep, target: PathStep, range: number): void {
+  currentTick();
+  anchors.set(creep.name, { pos: { x: target.x, y: target.y, roomName: target.roomName }, range });
+}
+
+function isWalkable(pos: PathStep, occupied: Set<string>): boolean {
+  if (pos.x < 1 || pos.x > 48 || pos.y < 1 || pos.y > 48) return false;
+  if (occupied.has(tileKey(pos))) return false;
+  return isWalkableTile(pos);
+}
+
+function pickTile(blocker: Creep, mover: Creep, occupied: Set<string>): PathStep | null {
+  const anchor = anchors.get(blocker.name);
+  const fits = (pos: PathStep) => !anchor || range(pos, anchor.pos) <= anchor.range;
+
+  // Swapping with the mover is always possible; other tiles must be free and walkable.
+  if (fits(mover.pos)) return mover.pos;
+  for (let dx = -1; dx <= 1; dx++) {
+    for (let dy = -1; dy <= 1; dy++) {
+      const pos = { x: blocker.pos.x + dx, y: blocker.pos.y + dy, roomName: blocker.pos.roomName };
+      if ((dx !== 0 || dy !== 0) && fits(pos) && isWalkable(pos, occupied)) return pos;
+    }
+  }
+  return null;
+}
+
+/**
+ * Разбирает пробки за тик: крипы, которые идут навстречу друг другу, и так меняются местами,
+ * а стоящих без движения крипов, занявших нужную клетку, сдвигает — меняет местами с идущим
+ * или отводит на свободную соседнюю клетку. Работающие крипы сдвигаются только так, чтобы цель осталась в радиусе.
+ * Вызывайте последней строкой `loop`, после `runTickHandlers` и всей логики, которая двигает крипов.
+ * @returns Имена сдвинутых крипов.
+ */
+export function resolveTraffic(): string[] {
+  currentTick();
+  const positions = new Map<string, Creep>();
+  for (const name in Game.creeps) {
+    const creep = Game.creeps[name];
+    if (creep && !creep.spawning) positions.set(tileKey(creep.pos), creep);
+  }
+  const occupied = new Set<string>(positions.keys());
+  for (const intent of intents.values()) occupied.add(tileKey(intent.to));
+
+  const shoved: string[] = [];
+  for (const intent of Array.from(intents.values())) {
+    const { creep: mover, to } = intent;
+    if (mover.fatigue > 0) continue;
+    const blocker = positions.get(tileKey(to));
+    if (!blocker || blocker.name === mover.name || intents.has(blocker.name) || blocker.fatigue > 0) continue;
+
+    const tile = pickTile(blocker, mover, occupied);
+    if (!tile || blocker.move(blocker.pos.getDirectionTo(tile.x, tile.y)) !== OK) continue;
+    intents.set(blocker.name, { creep: blocker, to: tile });
+    occupied.add(tileKey(tile));
+    shoved.push(blocker.name);
+  }
+
+  intents.clear();
+  anchors.clear();
+  return shoved;
+}
@@ -1,6 +1,16 @@
 import { ActionStatus } from "./status";
 import { SimpleCreepBase, SimpleCreepConstructor } from "./simpleCreepBase";
 import { HarvestingCapabilities } from "./mixins/harvestingMixins";
+import { registerWork } from "./traffic";
+import { getRoomEconomy, getSpendingMode, recordEnergy } from "./economy";
+import { findRepairTarget, getRepairTarget, isDecayUrgent, needsRepair } from "./repairPolicy";
+
+/** В режиме `save` при убыточной комнате апгрейдим только когда до понижения уровня контроллера осталось меньше этого. */
+const SAVE_DOWNGRADE_MARGIN = 5000;
+
+function activeWorkParts(creep: Creep): number {
+  return (creep.body ?? []).filter(p => p.type === WORK && p.hits > 0).length;
+}
 
 export function WorkMixin<
   TBase extends SimpleCreepConstructor<SimpleCreepBase & HarvestingCapabilities>,
@@ -21,7 +31,12 @@ export function WorkMixin<
       if (!this.isNear(controller, 3)) return ActionStatus.NOT_IN_RANGE;
 
       const res = this.creep.upgradeController(controller);
-      if (res === OK) return ActionStatus.UPGRADING;
+      if (res === OK) {
+        registerWork(this.creep, controller.pos, 3);
+        const energy = this.creep.store.getUsedCapacity(RESOURCE_ENERGY) ?? 0;
+        recordEnergy(controller.pos.roomName, "upgrade", Math.min(activeWorkParts(this.creep) * UPGRADE_CONTROLLER_POWER, energy));
+        return ActionStatus.UPGRADING;
+      }
       return ActionStatus.ERROR;
     }
 
@@ -48,7 +63,11 @@ export function WorkMixin<
       if (!this.isNear(site, 3)) return ActionStatus.NOT_IN_RANGE;
 
       const res = this.creep.build(site);
-      if (res === OK) return ActionStatus.BUILDING;
+      if (res === OK) {
+        registerWork(this.creep, site.pos, 3);
+        this.recordBuild(site);
+        return ActionStatus.BUILDING;
+      }
       return ActionStatus.ERROR;
     }
 
@@ -68,22 +87,38 @@ export function WorkMixin<
       if (!this.isNear(site, 3)) return ActionStatus.NOT_IN_RANGE;
 
       const res = this.creep.build(site);
-      if (res === OK) return ActionStatus.BUILDING;
+      if (res === OK) {
+        registerWork(this.creep, site.pos, 3);
+        this.recordBuild(site);
+        return ActionStatus.BUILDING;
+      }
       return ActionStatus.ERROR;
     }
 
+    private recordBuild(site: ConstructionSite): void {
+      const energy = this.creep.store.getUsedCapacity(RESOURCE_ENERGY) ?? 0;
+      const left = site.progressTotal - site.progress;
+      recordEnergy(site.pos.roomName, "build", Math.min(activeWorkParts(this.creep) * BUILD_POWER, energy, left));
+    }
+
     /**
-     * Ищет ближайшую повреждённую структуру (hits ниже максимума).
+     * Ищет, что чинить, по политике ремонта (`findRepairTarget`): стены и валы — только до цели по уровню контроллера,
+     * постройки, которые вот-вот разрушит распад, — первыми. Начатый ремонт продолжается до цели (`memory._repair`).
      * @returns Структура для ремонта или `null`, если всё исправно.
      */
     findClosestDamagedStructure(): Structure | null {
       const room = this.creep.room;
       if (!room) return null;
 
-      const damaged = room.find(FIND_STRUCTURES, { filter: s => s.hits < s.hitsMax }) as Structure[];
-      if (!damaged || damaged.length === 0) return null;
+      const memory = this.creep.memory as { _repair?: Id<Structure> };
+      const best = findRepairTarget(room, this.creep.pos);
+      const current = memory._repair ? Game.getObjectById(memory._repair) : null;
+      const keep = current && current.pos.roomName === room.name && current.hits < getRepairTarget(current);
+      const target = keep && !(best && isDecayUrgent(best)) ? current : best;
 
-      return (this.creep.pos.findClosestByRange(damaged) as Structure | null) ?? null;
+      if (target) memory._repair = target.id;
+      else delete memory._repair;
+      return target;
     }
 
     /**
@@ -97,7 +132,12 @@ export function WorkMixin<
       if (!this.isNear(target, 3)) return ActionStatus.NOT_IN_RANGE;
 
       const res = this.creep.repair(target);
-      if (res === OK) return ActionStatus.REPAIRING;
+      if (res === OK) {
+        registerWork(this.creep, target.pos, 3);
+        const energy = this.creep.store.getUsedCapacity(RESOURCE_ENERGY) ?? 0;
+        recordEnergy(target.pos.roomName, "repair", Math.min(activeWorkParts(this.creep) * REPAIR_POWER * REPAIR_COST, energy));
+        return ActionStatus.REPAIRING;
+      }
       return ActionStatus.ERROR;
     }
 
@@ -112,8 +152,8 @@ export function WorkMixin<
       const hasSite = room.find(FIND_CONSTRUCTION_SITES).length > 0;
       if (hasSite) return true;
 
-      const damaged = room.find(FIND_STRUCTURES, { filter: s => s.hits < s.hitsMax });
-      if (damaged.length > 0) return true;
+      const damaged = (room.find(FIND_STRUCTURES) as Structure[]).some(s => needsRepair(s));
+      if (damaged) return true;
 
       const controller = room.controller;
       if (controller && controller.level < 8) return true;
@@ -123,15 +163,33 @@ export function WorkMixin<
 
     /**
      * Выбирает доступную задачу: строить, чинить или апгрейдить, не двигая крипа автоматически.
-     * @returns Статус выбранного действия или `NO_TARGET`, если работы нет.
+     * Порядок зависит от режима трат комнаты (см. `getSpendingMode`): в `save`, пока средние расходы больше добычи
+     * (см. `getRoomEconomy`), контроллер апгрейдится, только если он близок к понижению уровня, а в `surplus`
+     * апгрейд идёт раньше ремонта, кроме построек, которые вот-вот разрушит распад.
+     * @returns Статус выбранного действия, `NO_TARGET`, если работы нет, или `IDLE`, если в режиме `save` лучше подождать.
      */
     doWork(): ActionStatus {
       const site = this.findClosestConstructionSite();
       if (site) return this.buildSite(site);
 
       const damaged = this.findClosestDamagedStructure();
+      if (damaged && isDecayUrgent(damaged)) return this.repair(damaged);
+
+      const mode = this.creep.room ? getSpendingMode(this.creep.room.name) : "normal";
+      if (mode === "surplus" && this.creep.room?.controller?.my) return this.upgradeController();
       if (damaged) return this.repair(damaged);
 
+      const room = this.creep.room;
+      const controller = room?.controller;
+      if (
+        mode === "save" &&
+        room &&
+        controller &&
+        (controller.ticksToDowngrade ?? 0) >= SAVE_DOWNGRADE_MARGIN &&
+        getRoomEconomy(room.name).net < 0
+      ) {
+        return ActionStatus.IDLE;
+      }
       return this.upgradeController();
     }
   };
@@ -1,6 +1,7 @@
 declare module 'node:test' {
   export type Hook = () => void | Promise<void>;
   export function beforeEach(fn: Hook): void;
+  export function afterEach(fn: Hook): void;
   export function describe(name: string, fn: Hook): void;
   export function test(name: string, fn: Hook): void;
 }